@@ -0,0 +1,46 @@
+/**
+ * API 错误码
+ */
+export type ApiErrorCode =
+	| 'bad_request'
+	| 'unauthorized'
+	| 'not_found'
+	| 'method_not_allowed'
+	| 'conflict'
+	| 'payload_too_large'
+	| 'internal_error';
+
+/**
+ * 带 HTTP 状态码的 API 错误，由路由统一序列化为 JSON
+ */
+export class ApiError extends Error {
+	readonly status: number;
+	readonly code: ApiErrorCode;
+
+	constructor(status: number, code: ApiErrorCode, message: string) {
+		super(message);
+		this.name = 'ApiError';
+		this.status = status;
+		this.code = code;
+	}
+
+	static badRequest(message: string): ApiError {
+		return new ApiError(400, 'bad_request', message);
+	}
+
+	static unauthorized(message = 'Unauthorized'): ApiError {
+		return new ApiError(401, 'unauthorized', message);
+	}
+
+	static notFound(message: string): ApiError {
+		return new ApiError(404, 'not_found', message);
+	}
+
+	static methodNotAllowed(method: string | undefined, path: string): ApiError {
+		return new ApiError(405, 'method_not_allowed', `${method ?? 'UNKNOWN'} is not allowed on ${path}`);
+	}
+
+	static conflict(message: string): ApiError {
+		return new ApiError(409, 'conflict', message);
+	}
+}
@@ -0,0 +1,122 @@
+import * as http from 'http';
+import { Socket } from 'net';
+
+/**
+ * HTTP 服务器运行状态
+ */
+export type HttpServerState = 'stopped' | 'starting' | 'listening' | 'error';
+
+/**
+ * HTTP 服务器监听配置
+ */
+export interface HttpServerConfig {
+	host: string;
+	port: number;
+}
+
+/**
+ * HTTP 服务器状态快照
+ */
+export interface HttpServerStatus {
+	state: HttpServerState;
+	config?: HttpServerConfig;
+	error?: string;
+}
+
+/**
+ * 可启停的 HTTP 服务器，负责监听、重启和错误上报
+ */
+export class GTDHttpServer {
+	private handler: http.RequestListener;
+	private onStatusChange: (status: HttpServerStatus) => void;
+	private server?: http.Server;
+	// 已建立的连接，停止时主动断开
+	private sockets: Set<Socket> = new Set();
+	private status: HttpServerStatus = { state: 'stopped' };
+
+	constructor(handler: http.RequestListener, onStatusChange: (status: HttpServerStatus) => void) {
+		this.handler = handler;
+		this.onStatusChange = onStatusChange;
+	}
+
+	getStatus(): HttpServerStatus {
+		return this.status;
+	}
+
+	/**
+	 * 当前配置是否与运行中的配置一致
+	 */
+	isRunningWith(config: HttpServerConfig): boolean {
+		return this.status.state === 'listening'
+			&& this.status.config?.host === config.host
+			&& this.status.config?.port === config.port;
+	}
+
+	/**
+	 * 启动服务器，失败时 reject 并将状态置为 error
+	 */
+	async start(config: HttpServerConfig): Promise<void> {
+		await this.stop();
+		this.setStatus({ state: 'starting', config });
+
+		const server = http.createServer(this.handler);
+		this.server = server;
+		server.on('connection', (socket: Socket) => {
+			this.sockets.add(socket);
+			socket.once('close', () => this.sockets.delete(socket));
+		});
+		await new Promise<void>((resolve, reject) => {
+			const onError = (error: NodeJS.ErrnoException) => {
+				server.removeListener('listening', onListening);
+				if (this.server === server) this.server = undefined;
+				this.setStatus({ state: 'error', config, error: this.describeError(error, config) });
+				reject(error);
+			};
+			const onListening = () => {
+				server.removeListener('error', onError);
+				this.setStatus({ state: 'listening', config });
+				console.log(`HTTP server listening on ${config.host}:${config.port}`);
+				resolve();
+			};
+			server.once('error', onError);
+			server.once('listening', onListening);
+			server.listen(config.port, config.host);
+		});
+	}
+
+	/**
+	 * 停止服务器，同时断开已有连接
+	 * 只调用 close 会一直等到客户端关闭 keep-alive 连接，修改端口或停用时无法完成
+	 */
+	async stop(): Promise<void> {
+		const server = this.server;
+		this.server = undefined;
+		if (server) {
+			const closed = new Promise<void>(resolve => server.close(() => resolve()));
+			for (const socket of this.sockets) socket.destroy();
+			this.sockets.clear();
+			await closed;
+		}
+		if (this.status.state !== 'stopped') {
+			this.setStatus({ state: 'stopped' });
+		}
+	}
+
+	private setStatus(status: HttpServerStatus) {
+		this.status = status;
+		this.onStatusChange(status);
+	}
+
+	private describeError(error: NodeJS.ErrnoException, config: HttpServerConfig): string {
+		switch (error.code) {
+			case 'EADDRINUSE':
+				return `端口 ${config.port} 已被占用`;
+			case 'EACCES':
+				return `没有权限监听端口 ${config.port}`;
+			case 'EADDRNOTAVAIL':
+				return `无法绑定地址 ${config.host}`;
+			default:
+				return error.message;
+		}
+	}
+}
@@ -0,0 +1,86 @@
+import * as http from 'http';
+import { ApiError } from './ApiError';
+
+// 请求体大小上限 1MB
+const MAX_BODY_BYTES = 1024 * 1024;
+
+/**
+ * 读取请求体原始文本
+ */
+export function readBody(req: http.IncomingMessage): Promise<string> {
+	return new Promise((resolve, reject) => {
+		// 先收集原始字节再统一解码，跨分块的多字节字符（例如中文任务名）不会被拆坏
+		const chunks: Buffer[] = [];
+		let size = 0;
+		req.on('data', (chunk: Buffer | string) => {
+			const buffer = typeof chunk === 'string' ? Buffer.from(chunk, 'utf8') : chunk;
+			size += buffer.length;
+			if (size > MAX_BODY_BYTES) {
+				reject(new ApiError(413, 'payload_too_large', 'Request body is too large'));
+				req.destroy();
+				return;
+			}
+			chunks.push(buffer);
+		});
+		req.on('end', () => resolve(Buffer.concat(chunks).toString('utf8')));
+		req.on('error', reject);
+	});
+}
+
+/**
+ * 拆分并解码路径，编码不合法（例如 %E0%A4%A）时为 400
+ */
+export function pathSegments(pathname: string): string[] {
+	try {
+		return pathname.split('/').filter(Boolean).map(decodeURIComponent);
+	} catch (e) {
+		throw ApiError.badRequest('Request path is not valid URL encoding');
+	}
+}
+
+/**
+ * 解析 JSON 请求体，空请求体返回空对象
+ */
+export function parseJsonBody<T = Record<string, unknown>>(body: string): T {
+	if (!body.trim()) return {} as T;
+	try {
+		const parsed = JSON.parse(body);
+		if (!parsed || typeof parsed !== 'object' || Array.isArray(parsed)) {
+			throw ApiError.badRequest('Request body must be a JSON object');
+		}
+		return parsed as T;
+	} catch (e) {
+		if (e instanceof ApiError) throw e;
+		throw ApiError.badRequest('Request body is not valid JSON');
+	}
+}
+
+/**
+ * 发送 JSON 成功响应
+ */
+export function sendJson(res: http.ServerResponse, status: number, data: unknown): void {
+	if (res.headersSent) {
+		res.end();
+		return;
+	}
+	res.writeHead(status, { 'Content-Type': 'application/json; charset=utf-8' });
+	res.end(JSON.stringify({ ok: true, data }));
+}
+
+/**
+ * 发送 JSON 错误响应，未知错误统一为 500
+ */
+export function sendError(res: http.ServerResponse, error: unknown): void {
+	const apiError = error instanceof ApiError
+		? error
+		: new ApiError(500, 'internal_error', error instanceof Error ? error.message : 'Internal error');
+	if (!(error instanceof ApiError)) {
+		console.error('API request failed:', error);
+	}
+	if (res.headersSent) {
+		res.end();
+		return;
+	}
+	res.writeHead(apiError.status, { 'Content-Type': 'application/json; charset=utf-8' });
+	res.end(JSON.stringify({ ok: false, error: { code: apiError.code, message: apiError.message } }));
+}
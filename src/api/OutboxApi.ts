@@ -0,0 +1,50 @@
+import * as http from 'http';
+import * as url from 'url';
+import { CompletionOutbox } from '../sync/CompletionOutbox';
+import { ApiError } from './ApiError';
+import { parseJsonBody, sendError, sendJson } from './HttpUtils';
+
+/**
+ * 发件箱拉取接口，供 OmniFocus 插件获取待回写的动作
+ *
+ * GET  /api/outbox        获取待处理的动作
+ * POST /api/outbox/ack    { ids: string[] } 确认已处理的动作
+ */
+export class OutboxApi {
+	private outbox: CompletionOutbox;
+
+	constructor(outbox: CompletionOutbox) {
+		this.outbox = outbox;
+	}
+
+	async handle(req: http.IncomingMessage, res: http.ServerResponse, body: string): Promise<void> {
+		try {
+			const pathname = url.parse(req.url ?? '').pathname ?? '';
+			const segments = pathname.split('/').filter(Boolean);
+			const method = req.method ?? 'GET';
+
+			if (segments.length === 2) {
+				if (method !== 'GET') throw ApiError.methodNotAllowed(method, pathname);
+				const pending = this.outbox.pending();
+				// 记录已被拉取，之后本地的反向操作不再与其抵消
+				if (pending.length > 0) this.outbox.markSent(pending.map(entry => entry.id));
+				sendJson(res, 200, pending);
+				return;
+			}
+
+			if (segments.length === 3 && segments[2] === 'ack') {
+				if (method !== 'POST') throw ApiError.methodNotAllowed(method, pathname);
+				const { ids } = parseJsonBody<{ ids?: unknown }>(body);
+				if (!Array.isArray(ids) || ids.some(id => typeof id !== 'string')) {
+					throw ApiError.badRequest('ids must be an array of strings');
+				}
+				sendJson(res, 200, { acknowledged: this.outbox.acknowledge(ids as string[]), remaining: this.outbox.size });
+				return;
+			}
+
+			throw ApiError.notFound(`No route for ${pathname}`);
+		} catch (error) {
+			sendError(res, error);
+		}
+	}
+}
@@ -0,0 +1,273 @@
+import { App, Notice, ObsidianProtocolData } from 'obsidian';
+import { ConfirmModal } from '../modal/ConfirmModal';
+import { Task } from '../modal/Task';
+import { QuickCaptureOptions } from '../modal/QuickCaptureModal';
+import { MergeReport } from '../sync/DailyNoteMerger';
+import { SyncJob } from '../sync/SyncJobManager';
+import { MAX_SYNC_DAYS, SyncRange } from '../sync/SyncRange';
+import { TaskIndex, TaskRecord } from '../tasks/TaskIndex';
+import { verifyProtocolKey } from '../tools/secureKey';
+import { buildCallbackUrl } from '../tools/xCallback';
+import { DailyNotes } from '../utils/DailyNotes';
+import { QuickCaptureParser, QuickCaptureResult } from '../utils/QuickCaptureParser';
+import { ApiError } from './ApiError';
+
+/**
+ * obsidian:// 协议动作需要插件提供的能力
+ */
+export interface ProtocolHost {
+	taskIndex: TaskIndex;
+	getSavePath(): string;
+	getApiSecret(): string;
+	// 请求 OmniFocus 同步一天或一段日期，同步结束（完成、失败或超时）后返回
+	requestSync(from: string, to?: string): Promise<SyncJob>;
+	activateTimelineView(date?: string): Promise<void>;
+	getQuickCaptureOptions(): QuickCaptureOptions;
+	captureTask(result: QuickCaptureResult, options: QuickCaptureOptions): Promise<boolean>;
+	completeTask(id: string, date?: string): Promise<TaskRecord>;
+	syncTodayTasks(tasks: Task[], week: Task[], date: string): Promise<MergeReport | undefined>;
+}
+
+/**
+ * 协议动作的错误
+ * reported 为 true 时插件已经显示过提示，只调用 x-error
+ */
+export class ProtocolError extends Error {
+	readonly code: string;
+	readonly reported: boolean;
+
+	constructor(code: string, message: string, reported = false) {
+		super(message);
+		this.name = 'ProtocolError';
+		this.code = code;
+		this.reported = reported;
+	}
+
+	static badRequest(message: string): ProtocolError {
+		return new ProtocolError('bad_request', message);
+	}
+}
+
+// 成功时传给 x-success 的参数
+type ProtocolResult = Record<string, string | number>;
+
+/**
+ * 注册的协议名称，obsidian_gtd_sync_task 是旧名称，与 obsidian_gtd_sync 相同
+ */
+export const PROTOCOL_ACTIONS = [
+	'obsidian_gtd_sync',
+	'obsidian_gtd_sync_task',
+	'obsidian_gtd_open',
+	'obsidian_gtd_add',
+	'obsidian_gtd_complete',
+	'obsidian_gtd_push',
+] as const;
+
+/**
+ * obsidian:// 协议动作，供快捷指令、Alfred 等调用
+ *
+ * obsidian://obsidian_gtd_sync?date=today            同步一天，或 from=&to=、days=7 同步一段日期
+ * obsidian://obsidian_gtd_open?date=&view=timeline   打开某一天的笔记或时间轴
+ * obsidian://obsidian_gtd_add?text=写周报 ::工作 明天  按快速收集语法添加任务
+ * obsidian://obsidian_gtd_complete?id=&date=         按 OmniFocus id 完成任务
+ * obsidian://obsidian_gtd_push?data=[...]&date=      直接写入 JSON 任务，不经过 OmniFocus
+ *
+ * 日期可以是 yyyy-mm-dd、today、tomorrow 或 yesterday。
+ * add、complete 和 push 会修改笔记或 OmniFocus，任何网页或应用都能打开这些链接，
+ * 所以执行前需要在对话框中确认；key 参数为设置中的 URL 动作密钥（由库密钥派生）时跳过确认，供自动化使用。
+ * 所有动作都支持 x-success 和 x-error 回调，失败时 x-error 带有 errorCode 和 errorMessage，
+ * 回调只允许 CALLBACK_SCHEMES 中的协议。
+ */
+export class ProtocolActions {
+	private app: App;
+	private host: ProtocolHost;
+
+	constructor(app: App, host: ProtocolHost) {
+		this.app = app;
+		this.host = host;
+	}
+
+	async handle(params: ObsidianProtocolData): Promise<void> {
+		try {
+			const result = await this.run(params);
+			this.callback(params['x-success'], result);
+		} catch (error) {
+			const code = error instanceof ProtocolError ? error.code : 'internal_error';
+			const message = error instanceof Error ? error.message : String(error);
+			if (!(error instanceof ProtocolError && error.reported)) {
+				if (code === 'internal_error') console.error(`Protocol action ${params.action} failed:`, error);
+				new Notice(`GTD: ${message}`);
+			}
+			this.callback(params['x-error'], { errorCode: code, errorMessage: message });
+		}
+	}
+
+	private async run(params: ObsidianProtocolData): Promise<ProtocolResult> {
+		switch (params.action) {
+			case 'obsidian_gtd_sync':
+			case 'obsidian_gtd_sync_task':
+				return this.sync(params);
+			case 'obsidian_gtd_open':
+				return this.open(params);
+			case 'obsidian_gtd_add':
+				return this.add(params);
+			case 'obsidian_gtd_complete':
+				return this.complete(params);
+			case 'obsidian_gtd_push':
+				return this.push(params);
+		}
+		throw ProtocolError.badRequest(`未知的动作 ${params.action}`);
+	}
+
+	/**
+	 * 同步一天或一段日期，等待 OmniFocus 回传后再回调
+	 */
+	private async sync(params: ObsidianProtocolData): Promise<ProtocolResult> {
+		let from = this.parseDate(params.from ?? params.date, 'from');
+		let to = params.to ? this.parseDate(params.to, 'to') : from;
+		if (params.days) {
+			const days = Number(params.days);
+			if (!Number.isInteger(days) || days < 1) throw ProtocolError.badRequest('days 必须是正整数');
+			to = DailyNotes.addDays(from, days - 1);
+		}
+		if (to < from) [from, to] = [to, from];
+		if (!SyncRange.days(from, to)) throw ProtocolError.badRequest(`一次最多同步 ${MAX_SYNC_DAYS} 天`);
+
+		const job = await this.host.requestSync(from, to);
+		if (job.status !== 'completed') {
+			// 失败和超时已由同步任务提示
+			throw new ProtocolError(job.status, job.error ?? `同步 ${from} 失败`, true);
+		}
+		return { jobId: job.id, from, to, ...this.counts(job.report) };
+	}
+
+	/**
+	 * 打开某一天的每日笔记或时间轴视图
+	 */
+	private async open(params: ObsidianProtocolData): Promise<ProtocolResult> {
+		const date = this.parseDate(params.date, 'date');
+		const path = DailyNotes.getPath(this.host.getSavePath(), date);
+		if (params.view === 'timeline') {
+			await this.host.activateTimelineView(date);
+			return { date, path };
+		}
+		if (params.view && params.view !== 'note') throw ProtocolError.badRequest('view 必须是 note 或 timeline');
+		if (!await this.app.vault.adapter.exists(path)) {
+			throw new ProtocolError('not_found', `${date} 还没有同步的笔记`);
+		}
+		await this.app.workspace.openLinkText(path, '', false);
+		return { date, path };
+	}
+
+	/**
+	 * 按快速收集的语法添加任务，date 参数覆盖文字中的日期
+	 */
+	private async add(params: ObsidianProtocolData): Promise<ProtocolResult> {
+		const result = QuickCaptureParser.parse(params.text ?? '');
+		if (!result) throw ProtocolError.badRequest('text 中没有任务名称');
+		if (params.date) result.date = this.parseDate(params.date, 'date');
+
+		const options = this.host.getQuickCaptureOptions();
+		if (params.target) {
+			if (params.target !== 'list' && params.target !== 'timeline') throw ProtocolError.badRequest('target 必须是 list 或 timeline');
+			options.target = params.target;
+		}
+		// 回写方式为关闭时始终不发送
+		if (params.omnifocus === 'false') options.sendToOmniFocus = false;
+
+		await this.confirm(params, `添加任务「${result.task.name}」到 ${result.date} 的笔记${options.sendToOmniFocus ? '，并在 OmniFocus 中创建' : ''}`);
+		if (!await this.host.captureTask(result, options)) {
+			throw new ProtocolError('write_failed', '收集任务失败', true);
+		}
+		return { date: result.date, name: result.task.name };
+	}
+
+	/**
+	 * 按 OmniFocus id 完成任务，完成状态会像手动勾选一样回写
+	 */
+	private async complete(params: ObsidianProtocolData): Promise<ProtocolResult> {
+		const id = params.id?.trim();
+		if (!id) throw ProtocolError.badRequest('缺少任务 id');
+		const date = params.date ? this.parseDate(params.date, 'date') : undefined;
+		const known = this.host.taskIndex.getById(id)[0]?.task?.name;
+		await this.confirm(params, known ? `完成任务「${known}」` : `完成 OmniFocus 任务 ${id}`);
+		let record: TaskRecord;
+		try {
+			record = await this.host.completeTask(id, date);
+		} catch (error) {
+			if (error instanceof ApiError && error.status === 404) {
+				throw new ProtocolError('not_found', `找不到任务 ${id}`);
+			}
+			throw error;
+		}
+		const name = record.task?.name ?? id;
+		new Notice(`已完成「${name}」`);
+		return { id, name, path: record.path };
+	}
+
+	/**
+	 * 直接写入 JSON 任务：任务数组，或与 HTTP 推送相同的 { data, week, date }
+	 */
+	private async push(params: ObsidianProtocolData): Promise<ProtocolResult> {
+		if (!params.data) throw ProtocolError.badRequest('缺少 data');
+		let payload: unknown;
+		try {
+			payload = JSON.parse(params.data);
+		} catch (error) {
+			throw ProtocolError.badRequest('data 不是有效的 JSON');
+		}
+		const body = Array.isArray(payload) ? { data: payload } : payload as { data?: unknown; week?: unknown; date?: unknown };
+		if (!body || !Array.isArray(body.data)) throw ProtocolError.badRequest('data 必须是任务数组或包含 data 数组的对象');
+		if (body.data.some(task => !task || typeof task.name !== 'string')) {
+			throw ProtocolError.badRequest('每个任务都需要 name');
+		}
+		const week = Array.isArray(body.week) ? body.week as Task[] : [];
+		const date = this.parseDate(params.date ?? (typeof body.date === 'string' ? body.date : undefined), 'date');
+		await this.confirm(params, `把 ${body.data.length} 个任务写入 ${date} 的笔记`);
+
+		const report = await this.host.syncTodayTasks(body.data as Task[], week, date);
+		// 写入失败已由同步提示
+		if (!report) throw new ProtocolError('write_failed', `写入 ${date} 的笔记失败`, true);
+		return { date, ...this.counts(report) };
+	}
+
+	/**
+	 * 修改笔记或 OmniFocus 前确认，key 参数正确时不需要确认，取消时只调用 x-error
+	 */
+	private async confirm(params: ObsidianProtocolData, message: string): Promise<void> {
+		if (params.key && verifyProtocolKey(this.host.getApiSecret(), params.key)) return;
+		const callback = params['x-success'] ? `\n完成后打开 ${params['x-success']}` : '';
+		if (!await ConfirmModal.ask(this.app, '确认 GTD 动作', `外部链接请求${message}。${callback}`, '执行')) {
+			throw new ProtocolError('cancelled', '已取消', true);
+		}
+	}
+
+	/**
+	 * 解析日期参数，未提供时为今天
+	 */
+	private parseDate(value: string | undefined, name: string): string {
+		const today = DailyNotes.formatDate(new Date());
+		switch (value?.trim().toLowerCase() || 'today') {
+			case 'today': return today;
+			case 'tomorrow': return DailyNotes.addDays(today, 1);
+			case 'yesterday': return DailyNotes.addDays(today, -1);
+		}
+		const date = value?.trim() ?? '';
+		if (!DailyNotes.parseDate(date)) throw ProtocolError.badRequest(`${name} 必须是 yyyy-mm-dd、today、tomorrow 或 yesterday`);
+		return date;
+	}
+
+	private counts(report?: MergeReport): ProtocolResult {
+		return report ? { added: report.added.length, updated: report.updated.length, removed: report.removed.length } : {};
+	}
+
+	private callback(url: string | undefined, params: ProtocolResult): void {
+		if (!url) return;
+		const target = buildCallbackUrl(url, params);
+		if (!target) {
+			new Notice(`GTD: 回调地址无效或协议不受支持 ${url}`);
+			return;
+		}
+		window.open(target, '_blank');
+	}
+}
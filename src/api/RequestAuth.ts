@@ -0,0 +1,76 @@
+import * as http from 'http';
+import * as url from 'url';
+import { ReplayGuard, verifyRequestSignature, verifySecureKey } from '../tools/secureKey';
+import { ApiError } from './ApiError';
+
+// 交接令牌只能用于回传同步任务：GET /api/jobs/:id 和 POST /api/jobs/:id/claim|result|fail
+const JOB_TOKEN_PATH = /^(\/api\/jobs\/[^/]+)(?:\/(?:claim|result|fail))?\/?$/;
+
+/**
+ * HTTP 请求鉴权
+ *
+ * 支持两种方式，所有路由（包括 /api）都必须通过其中之一：
+ * 1. 签名请求：x-gtd-timestamp + x-gtd-signature，签名覆盖时间戳、方法、路径和请求体，每个签名只能使用一次
+ * 2. 交接令牌：token + expires，由插件请求同步时为某个同步任务签发，只能用于该任务的回传接口，过期前有效
+ */
+export class RequestAuth {
+	private getSecret: () => string;
+	private replayGuard = new ReplayGuard();
+
+	constructor(getSecret: () => string) {
+		this.getSecret = getSecret;
+	}
+
+	/**
+	 * 校验请求，失败时抛出 401 错误
+	 * @param body 已读取的请求体原文
+	 */
+	authenticate(req: http.IncomingMessage, body: string): void {
+		const secret = this.getSecret();
+		if (!secret) throw ApiError.unauthorized('API secret is not configured');
+
+		const signature = this.header(req, 'x-gtd-signature');
+		const timestampHeader = this.header(req, 'x-gtd-timestamp');
+		const parsed = url.parse(req.url ?? '');
+		if (signature || timestampHeader) {
+			const timestamp = timestampHeader ? parseInt(timestampHeader, 10) : NaN;
+			const path = parsed.path ?? '/';
+			if (!signature || !verifyRequestSignature(secret, timestamp, req.method ?? 'GET', path, body, signature)) {
+				throw ApiError.unauthorized('Invalid or expired signature');
+			}
+			if (!this.replayGuard.register(signature, timestamp)) {
+				throw ApiError.unauthorized('Replayed request');
+			}
+			return;
+		}
+
+		const token = this.header(req, 'token');
+		if (!token) throw ApiError.unauthorized('Missing credentials');
+		const scope = RequestAuth.tokenScope(parsed.pathname ?? '');
+		if (!scope) throw ApiError.unauthorized('Token is only accepted for sync job callbacks');
+		const expires = parseInt(this.header(req, 'expires') ?? '', 10);
+		if (!verifySecureKey(secret, expires, token, scope)) {
+			throw ApiError.unauthorized('Invalid or expired token');
+		}
+	}
+
+	/**
+	 * 同步任务交接令牌的使用范围：该任务的接口路径 /api/jobs/:id
+	 */
+	private static tokenScope(pathname: string): string | null {
+		const match = pathname.match(JOB_TOKEN_PATH);
+		return match && !match[1].endsWith('/next') ? match[1] : null;
+	}
+
+	/**
+	 * 密钥轮换后丢弃已记录的签名
+	 */
+	reset(): void {
+		this.replayGuard.clear();
+	}
+
+	private header(req: http.IncomingMessage, name: string): string | undefined {
+		const value = req.headers[name];
+		return Array.isArray(value) ? value[0] : value;
+	}
+}
@@ -0,0 +1,106 @@
+import * as http from 'http';
+import * as url from 'url';
+import { Task } from '../modal/Task';
+import { MergeReport } from '../sync/DailyNoteMerger';
+import { SyncJob, SyncJobManager } from '../sync/SyncJobManager';
+import { ApiError } from './ApiError';
+import { parseJsonBody, pathSegments, sendError, sendJson } from './HttpUtils';
+
+/**
+ * OmniFocus 回传的同步结果
+ */
+export interface SyncJobPayload {
+	data: Task[];
+	week: Task[];
+}
+
+/**
+ * 同步任务接口
+ *
+ * GET  /api/jobs               最近的任务
+ * GET  /api/jobs/next          领取最早的待处理任务，没有时 data 为 null
+ * GET  /api/jobs/:id           查询任务
+ * POST /api/jobs/:id/claim     领取指定任务
+ * POST /api/jobs/:id/result    { data, week } 提交导出结果
+ * POST /api/jobs/:id/fail      { error } 报告失败
+ */
+export class SyncJobApi {
+	private jobs: SyncJobManager;
+	private runSync: (job: SyncJob, payload: SyncJobPayload) => Promise<MergeReport | undefined>;
+
+	constructor(
+		jobs: SyncJobManager,
+		runSync: (job: SyncJob, payload: SyncJobPayload) => Promise<MergeReport | undefined>
+	) {
+		this.jobs = jobs;
+		this.runSync = runSync;
+	}
+
+	async handle(req: http.IncomingMessage, res: http.ServerResponse, body: string): Promise<void> {
+		try {
+			const pathname = url.parse(req.url ?? '').pathname ?? '';
+			const segments = pathSegments(pathname);
+			const method = req.method ?? 'GET';
+
+			if (segments.length === 2) {
+				if (method !== 'GET') throw ApiError.methodNotAllowed(method, pathname);
+				sendJson(res, 200, this.jobs.list());
+				return;
+			}
+
+			if (segments.length === 3 && segments[2] === 'next') {
+				if (method !== 'GET') throw ApiError.methodNotAllowed(method, pathname);
+				sendJson(res, 200, this.jobs.claimNext());
+				return;
+			}
+
+			const job = this.jobs.get(segments[2]);
+			if (!job) throw ApiError.notFound(`Sync job ${segments[2]} not found`);
+
+			if (segments.length === 3) {
+				if (method !== 'GET') throw ApiError.methodNotAllowed(method, pathname);
+				sendJson(res, 200, job);
+				return;
+			}
+
+			if (segments.length === 4 && method !== 'POST') {
+				throw ApiError.methodNotAllowed(method, pathname);
+			}
+
+			switch (segments.length === 4 ? segments[3] : '') {
+				case 'claim': {
+					const claimed = this.jobs.claim(job.id);
+					if (!claimed) throw ApiError.conflict(`Sync job ${job.id} is ${job.status}`);
+					sendJson(res, 200, claimed);
+					return;
+				}
+				case 'result': {
+					if (!this.jobs.isActive(job)) throw ApiError.conflict(`Sync job ${job.id} is ${job.status}`);
+					const payload = parseJsonBody<Partial<SyncJobPayload>>(body);
+					if (!Array.isArray(payload.data)) throw ApiError.badRequest('data must be an array of tasks');
+					// 直接提交结果也视为已领取；写入期间不会超时
+					if (!this.jobs.receive(job.id)) throw ApiError.conflict(`Sync job ${job.id} is already being written`);
+					try {
+						const report = await this.runSync(job, { data: payload.data, week: Array.isArray(payload.week) ? payload.week : [] });
+						sendJson(res, 200, this.jobs.complete(job.id, report) ?? job);
+					} catch (error) {
+						this.jobs.fail(job.id, error instanceof Error ? error.message : String(error));
+						throw error;
+					}
+					return;
+				}
+				case 'fail': {
+					const { error } = parseJsonBody<{ error?: unknown }>(body);
+					const failed = this.jobs.fail(job.id, typeof error === 'string' && error ? error : 'OmniFocus reported a failure');
+					if (!failed) throw ApiError.conflict(`Sync job ${job.id} is ${job.status}`);
+					sendJson(res, 200, failed);
+					return;
+				}
+			}
+
+			throw ApiError.notFound(`No route for ${pathname}`);
+		} catch (error) {
+			sendError(res, error);
+		}
+	}
+}
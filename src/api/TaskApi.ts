@@ -0,0 +1,324 @@
+import { App } from 'obsidian';
+import * as http from 'http';
+import * as url from 'url';
+import { Task, TaskStatus } from '../modal/Task';
+import { TaskFormatter } from '../modal/TaskFormatter';
+import { TaskIndex, TaskRecord } from '../tasks/TaskIndex';
+import { DailyNotes, DATE_PATTERN } from '../utils/DailyNotes';
+import { ApiError } from './ApiError';
+import { parseJsonBody, pathSegments, sendError, sendJson } from './HttpUtils';
+
+// 单次范围查询最多跨越的天数
+const MAX_RANGE_DAYS = 366;
+
+/**
+ * 创建任务的请求体
+ */
+interface CreateTaskBody {
+	date?: string;
+	task?: Partial<Task>;
+}
+
+/**
+ * 修改任务的请求体
+ */
+interface PatchTaskBody {
+	date?: string;
+	completed?: boolean;
+	name?: string;
+	startTime?: string;
+	duration?: number;
+}
+
+/**
+ * 笔记中的一行及其所在区域
+ */
+interface NoteLine {
+	lineNumber: number;
+	line: string;
+	inFence: boolean;
+	inTimeline: boolean;
+}
+
+/**
+ * 任务 REST API
+ *
+ * GET    /api/tasks?from=yyyy-mm-dd&to=yyyy-mm-dd&status=ongoing|completed|dropped&tag=&project=
+ * GET    /api/tasks/:id?date=yyyy-mm-dd
+ *
+ * 查询基于全库任务索引，任务可以来自任意笔记，新建任务写入每日笔记
+ * POST   /api/tasks                 { date, task }
+ * PATCH  /api/tasks/:id             { date?, completed?, name?, startTime?, duration? }
+ * GET    /api/getTasks/:date/:type/:format?   （旧接口，保持兼容）
+ */
+export class TaskApi {
+	private app: App;
+	private index: TaskIndex;
+	private getSavePath: () => string;
+
+	constructor(app: App, index: TaskIndex, getSavePath: () => string) {
+		this.app = app;
+		this.index = index;
+		this.getSavePath = getSavePath;
+	}
+
+	/**
+	 * 处理 /api 下的请求，每个请求只会写出一次响应
+	 * @param body 已读取并通过鉴权的请求体
+	 */
+	async handle(req: http.IncomingMessage, res: http.ServerResponse, body: string): Promise<void> {
+		try {
+			const parsedUrl = url.parse(req.url ?? '', true);
+			const pathname = parsedUrl.pathname ?? '';
+			const segments = pathSegments(pathname);
+			const query = parsedUrl.query;
+			const method = req.method ?? 'GET';
+
+			if (segments[1] === 'getTasks') {
+				if (method !== 'GET') throw ApiError.methodNotAllowed(method, pathname);
+				sendJson(res, 200, await this.getLegacyTasks(segments[2], segments[3], segments[4]));
+				return;
+			}
+
+			if (segments[1] === 'tasks' && segments.length === 2) {
+				if (method === 'GET') {
+					sendJson(res, 200, this.listTasks(
+						this.queryString(query.from),
+						this.queryString(query.to),
+						this.queryString(query.status),
+						this.queryString(query.tag),
+						this.queryString(query.project)
+					));
+				} else if (method === 'POST') {
+					sendJson(res, 201, await this.createTask(parseJsonBody<CreateTaskBody>(body)));
+				} else {
+					throw ApiError.methodNotAllowed(method, pathname);
+				}
+				return;
+			}
+
+			if (segments[1] === 'tasks' && segments.length === 3) {
+				const id = segments[2];
+				if (method === 'GET') {
+					sendJson(res, 200, this.getTask(id, this.queryString(query.date)));
+				} else if (method === 'PATCH') {
+					sendJson(res, 200, await this.patchTask(id, parseJsonBody<PatchTaskBody>(body)));
+				} else {
+					throw ApiError.methodNotAllowed(method, pathname);
+				}
+				return;
+			}
+
+			throw ApiError.notFound(`No route for ${pathname}`);
+		} catch (error) {
+			sendError(res, error);
+		}
+	}
+
+	/**
+	 * 列出日期范围内的任务，可按标签和项目过滤
+	 */
+	listTasks(from?: string, to?: string, status?: string, tag?: string, project?: string): TaskRecord[] {
+		if (status && !this.isTaskStatus(status)) {
+			throw ApiError.badRequest(`Invalid status: ${status}`);
+		}
+		const range = this.resolveRange(from, to);
+		return this.index.query({ ...range, status: status as TaskStatus | undefined, tag, project });
+	}
+
+	/**
+	 * 按 OmniFocus id 获取任务，未指定日期时返回最近日期的记录
+	 */
+	getTask(id: string, date?: string): TaskRecord {
+		if (date && !DailyNotes.parseDate(date)) {
+			throw ApiError.badRequest('date must be in yyyy-mm-dd format');
+		}
+		const records = this.index.query(date ? { id, from: date, to: date } : { id });
+		const record = records[records.length - 1];
+		if (!record) throw ApiError.notFound(`Task ${id} not found`);
+		return record;
+	}
+
+	/**
+	 * 在每日笔记末尾创建任务
+	 */
+	async createTask(body: CreateTaskBody): Promise<TaskRecord> {
+		const date = body.date;
+		if (!date || !DailyNotes.parseDate(date)) {
+			throw ApiError.badRequest('date is required in yyyy-mm-dd format');
+		}
+		const input = body.task;
+		if (!input || typeof input.name !== 'string' || !input.name.trim()) {
+			throw ApiError.badRequest('task.name is required');
+		}
+
+		if (input.id && this.index.query({ id: input.id, from: date, to: date }).length > 0) {
+			throw ApiError.conflict(`Task ${input.id} already exists in ${date}`);
+		}
+
+		const notePath = DailyNotes.getPath(this.getSavePath(), date);
+		const content = (await this.readNote(notePath)) ?? '';
+
+		const line = TaskFormatter.format({ ...input, id: input.id ?? '', name: input.name.trim() } as Task);
+		const lines = content ? content.split('\n') : [];
+		// 去掉末尾空行后追加，保证任务紧跟在已有内容之后
+		while (lines.length > 0 && lines[lines.length - 1].trim() === '') lines.pop();
+		lines.push(line, '');
+		await this.writeNote(notePath, lines.join('\n'));
+
+		return this.requireRecord(notePath, lines.length - 2);
+	}
+
+	/**
+	 * 修改任务的完成状态、名称或时间
+	 * 同一笔记中带有该 id 的所有行（任务列表和时间轴）都会被更新
+	 */
+	async patchTask(id: string, body: PatchTaskBody): Promise<TaskRecord> {
+		if (body.completed === undefined && body.name === undefined && body.startTime === undefined && body.duration === undefined) {
+			throw ApiError.badRequest('Nothing to update: expected completed, name, startTime or duration');
+		}
+		if (body.completed !== undefined && typeof body.completed !== 'boolean') {
+			throw ApiError.badRequest('completed must be a boolean');
+		}
+		if (body.name !== undefined && (typeof body.name !== 'string' || !body.name.trim())) {
+			throw ApiError.badRequest('name must be a non-empty string');
+		}
+		if (body.startTime !== undefined && (typeof body.startTime !== 'string' || !/^([01]?\d|2[0-3]):[0-5]\d$/.test(body.startTime))) {
+			throw ApiError.badRequest('startTime must be a time between 00:00 and 23:59 in HH:mm format');
+		}
+		if (body.duration !== undefined && (!Number.isInteger(body.duration) || body.duration <= 0)) {
+			throw ApiError.badRequest('duration must be a positive integer (minutes)');
+		}
+
+		const record = this.getTask(id, body.date);
+		const content = (await this.readNote(record.path)) ?? '';
+		const lines = content.split('\n');
+		const updateTime = body.startTime !== undefined || body.duration !== undefined;
+		let timeUpdated = false;
+
+		for (const noteLine of this.scanLines(content)) {
+			if (TaskFormatter.extractTaskId(noteLine.line) !== id) continue;
+			let line = noteLine.line;
+			if (body.completed !== undefined && TaskFormatter.getLineStatus(line) !== 'dropped') {
+				line = TaskFormatter.setLineCompleted(line, body.completed);
+			}
+			if (body.name !== undefined) {
+				line = TaskFormatter.setLineName(line, body.name);
+			}
+			if (updateTime && noteLine.inTimeline) {
+				const startTime = body.startTime ?? line.match(/@(\d{1,2}:\d{2})/)?.[1];
+				if (startTime) {
+					line = TaskFormatter.setLineTime(line, startTime, body.duration);
+					timeUpdated = true;
+				}
+			}
+			lines[noteLine.lineNumber] = line;
+		}
+
+		if (updateTime && !timeUpdated) {
+			throw ApiError.conflict(`Task ${id} has no timeline entry in ${record.date}`);
+		}
+
+		const updatedContent = lines.join('\n');
+		if (updatedContent !== content) {
+			await this.writeNote(record.path, updatedContent);
+		}
+		const updated = this.index.getFile(record.path).find(item => item.id === id);
+		if (!updated) throw new ApiError(500, 'internal_error', `Task ${id} disappeared from ${record.path}`);
+		return updated;
+	}
+
+	/**
+	 * 旧接口 /api/getTasks/:date/:type/:format
+	 * 不带 format 时返回解析后的任务对象，带 format 时返回原始行
+	 */
+	private async getLegacyTasks(date?: string, type?: string, format?: string): Promise<Array<Task | string>> {
+		if (!date || !DATE_PATTERN.test(date)) {
+			throw ApiError.badRequest('Invalid date parameter');
+		}
+		if (type !== 'all' && (!type || !this.isTaskStatus(type))) {
+			throw ApiError.badRequest('Invalid type parameter');
+		}
+		const notePath = DailyNotes.getPath(this.getSavePath(), date);
+		if ((await this.readNote(notePath)) === null) {
+			// 文件不存在则创建空文件
+			await this.writeNote(notePath, '');
+		}
+
+		const records = this.index.query({
+			path: notePath,
+			status: type === 'all' ? undefined : type,
+		});
+		if (format) return records.map(record => record.line);
+		return records
+			.map(record => record.task)
+			.filter((task): task is Task => !!task);
+	}
+
+	private requireRecord(notePath: string, lineNumber: number): TaskRecord {
+		const record = this.index.getFile(notePath).find(item => item.lineNumber === lineNumber);
+		if (!record) throw new ApiError(500, 'internal_error', `Line ${lineNumber} of ${notePath} is not a task`);
+		return record;
+	}
+
+	/**
+	 * 逐行扫描笔记，标记代码块和 timeline 代码块中的行
+	 */
+	private scanLines(content: string): NoteLine[] {
+		const result: NoteLine[] = [];
+		let inFence = false;
+		let inTimeline = false;
+		content.split('\n').forEach((line, lineNumber) => {
+			const fence = line.match(/^\s*```\s*(\S*)/);
+			if (fence) {
+				inTimeline = !inFence && fence[1] === 'timeline';
+				inFence = !inFence;
+				return;
+			}
+			result.push({ lineNumber, line, inFence, inTimeline });
+		});
+		return result;
+	}
+
+	/**
+	 * 解析查询的日期范围，默认为今天
+	 */
+	private resolveRange(from?: string, to?: string): { from: string; to: string } {
+		const start = from ?? to ?? DailyNotes.formatDate(new Date());
+		const end = to ?? start;
+		const startDate = DailyNotes.parseDate(start);
+		const endDate = DailyNotes.parseDate(end);
+		if (!startDate || !endDate) {
+			throw ApiError.badRequest('from/to must be in yyyy-mm-dd format');
+		}
+		if (startDate.getTime() > endDate.getTime()) {
+			throw ApiError.badRequest('from must not be after to');
+		}
+		if (DailyNotes.addDays(start, MAX_RANGE_DAYS) <= end) {
+			throw ApiError.badRequest(`Date range must not exceed ${MAX_RANGE_DAYS} days`);
+		}
+		return { from: start, to: end };
+	}
+
+	private async readNote(notePath: string): Promise<string | null> {
+		if (!(await this.app.vault.adapter.exists(notePath))) return null;
+		return this.app.vault.adapter.read(notePath);
+	}
+
+	/**
+	 * 写入笔记并立即更新索引，随后的请求不必等待 metadataCache
+	 */
+	private async writeNote(notePath: string, content: string): Promise<void> {
+		await this.app.vault.adapter.write(notePath, content);
+		this.index.update(notePath, content);
+	}
+
+	private queryString(value: string | string[] | undefined): string | undefined {
+		const single = Array.isArray(value) ? value[0] : value;
+		return single ? single : undefined;
+	}
+
+	private isTaskStatus(value: string): value is TaskStatus {
+		return value === 'ongoing' || value === 'completed' || value === 'dropped';
+	}
+}
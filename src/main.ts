@@ -1,26 +1,84 @@
-import { App, Notice, Plugin, PluginSettingTab, Setting, TFolder, MarkdownPostProcessorContext, MarkdownView, TFile } from 'obsidian';
+import { App, debounce, Notice, Plugin, PluginSettingTab, Setting, TFolder, MarkdownView, TFile } from 'obsidian';
 
 import { DatePickerModal } from './modal/DatePickerModal';
-import { generateSecureKey,verifySecureKey } from './tools/secureKey';
+import { QuickCaptureModal, QuickCaptureOptions, QuickCaptureTarget } from './modal/QuickCaptureModal';
+import { deriveProtocolKey, generateSecret, generateSecureKey } from './tools/secureKey';
 import { Task } from './modal/Task';
 import { TaskFormatter } from './modal/TaskFormatter';
-import { TimelineRenderer } from './renderer/TimelineRenderer';
-import * as url from 'url';
+import { TimelineContentUpdate, TimelineLayout, TimelineOptions, TimelineRenderer, TimelineSourceUpdate, TimelineTaskMove } from './renderer/TimelineRenderer';
+import { TaskApi } from './api/TaskApi';
+import { ApiError } from './api/ApiError';
+import { RequestAuth } from './api/RequestAuth';
+import { parseJsonBody, readBody, sendError } from './api/HttpUtils';
+import { GTDHttpServer, HttpServerStatus } from './api/HttpServer';
+import { DailyNoteMerger, MergeReport } from './sync/DailyNoteMerger';
+import { DailyNoteTemplate } from './sync/DailyNoteTemplate';
+import { CompletionOutbox, OutboxAction, OutboxEntry } from './sync/CompletionOutbox';
+import { CompletionWatcher, TaskStateChange } from './sync/CompletionWatcher';
+import { OutboxApi } from './api/OutboxApi';
+import { SyncJobApi, SyncJobPayload } from './api/SyncJobApi';
+import { SyncJob, SyncJobManager } from './sync/SyncJobManager';
+import { buildPluginActionUrl } from './tools/omnifocusUrl';
+import { DailyNotes } from './utils/DailyNotes';
+import { QuickCaptureParser, QuickCaptureResult } from './utils/QuickCaptureParser';
+import { TaskIndex, TaskOccurrence, TaskQuery, TaskRecord } from './tasks/TaskIndex';
+import { Recurrence } from './tasks/Recurrence';
+import { FirstDayOfWeek, Weeks } from './utils/Weeks';
+import { WeeklyNote } from './sync/WeeklyNote';
+import { SyncRange } from './sync/SyncRange';
+import { ProtocolActions, PROTOCOL_ACTIONS } from './api/ProtocolActions';
+import { TimelineView, VIEW_TYPE_TIMELINE } from './view/TimelineView';
+import { TimelineBlocks, TimelineLineRef, TimelineWriteResult } from './utils/TimelineBlocks';
+import { TimelineEdit, TimelineHistory } from './renderer/TimelineHistory';
 import * as http from 'http';
 // Remember to rename these classes and interfaces!
 
 interface GTDPluginSettings {
 	savePath: string;
-	timelineLayout: 'vertical';
+	dailyNoteTemplatePath: string;
+	firstDayOfWeek: FirstDayOfWeek;
+	timelineLayout: TimelineLayout;
+	timelineWeekDays: 5 | 7;
 	timelineIntervalMinutes: number;
 	enableTimelineDragging: boolean;
+	showRecurringTasks: boolean;
+	apiSecret: string;
+	httpServerEnabled: boolean;
+	httpHost: string;
+	httpPort: number;
+	completionSyncMode: CompletionSyncMode;
+	quickCaptureTarget: QuickCaptureTarget;
+}
+
+/**
+ * 完成状态回写方式：关闭、通过 URL Scheme 推送、由 OmniFocus 插件拉取
+ */
+type CompletionSyncMode = 'off' | 'url' | 'pull';
+
+/**
+ * data.json 的内容：设置项加上需要持久化的运行状态
+ */
+interface GTDPluginData extends Partial<GTDPluginSettings> {
+	outbox?: OutboxEntry[];
+	// 每天笔记上次从 OmniFocus 同步的时间（毫秒时间戳），按日期记录
+	syncTimes?: Record<string, number>;
 }
 
 const DEFAULT_SETTINGS: GTDPluginSettings = {
 	savePath: 'GTDPluginSettings_savePath',
+	dailyNoteTemplatePath: '',
+	firstDayOfWeek: 1,
 	timelineLayout: 'vertical',
+	timelineWeekDays: 7,
 	timelineIntervalMinutes: 30,
 	enableTimelineDragging: true,
+	showRecurringTasks: true,
+	apiSecret: '',
+	httpServerEnabled: true,
+	httpHost: '127.0.0.1',
+	httpPort: 3001,
+	completionSyncMode: 'url',
+	quickCaptureTarget: 'list',
 }
 
 const PLUGIN_VERSION = '1.1.1';
@@ -29,46 +87,203 @@ const TODAY_TAG = 'Today';
 
 export default class GTDPlugin extends Plugin {
 	settings: GTDPluginSettings;
-	_lastToken?: string;
+	taskIndex: TaskIndex;
 	private timelineRenderers: Set<TimelineRenderer> = new Set();
+	// 时间轴的撤销/重做记录，按笔记保存，代码块重新渲染后仍然有效
+	private timelineHistory: TimelineHistory = new TimelineHistory();
+	private taskApi: TaskApi;
+	private requestAuth: RequestAuth;
+	private httpServer: GTDHttpServer;
+	private statusBarEl?: HTMLElement;
+	private settingTab?: SettingTab;
+	// 端口等设置逐字输入时，延迟重启服务器
+	private scheduleHttpServerRestart = debounce(() => this.applyHttpServerSettings(), 1000, true);
+	outbox: CompletionOutbox = new CompletionOutbox(() => this.savePluginData());
+	private outboxApi: OutboxApi = new OutboxApi(this.outbox);
+	// 每天笔记上次同步的时间，保存在插件数据中
+	private syncTimes: Record<string, number> = {};
+	private completionWatcher: CompletionWatcher;
+	// 连续勾选多个任务时合并为一次 URL 调用
+	private scheduleOutboxFlush = debounce(() => this.flushOutbox(), 3000, true);
+	private syncJobs: SyncJobManager = new SyncJobManager(job => this.handleSyncJobUpdate(job));
+	private syncJobApi: SyncJobApi = new SyncJobApi(this.syncJobs, (job, payload) => this.runSyncJob(job, payload));
 
 	async onload() {
 		await this.loadSettings();
-		this.startHttpServer(3001);
+		// 全库任务索引，API 和时间轴共用
+		this.taskIndex = new TaskIndex(this.app);
+		this.registerEvent(this.app.metadataCache.on('changed', (file, data, cache) => this.taskIndex.handleChanged(file, data, cache)));
+		this.registerEvent(this.app.vault.on('rename', (file, oldPath) => this.taskIndex.handleRename(file, oldPath)));
+		this.registerEvent(this.app.vault.on('delete', file => this.taskIndex.handleDelete(file)));
+		this.registerEvent(this.app.vault.on('rename', (file, oldPath) => this.timelineHistory.rename(oldPath, file.path)));
+		this.register(this.taskIndex.onStatusChange((record, previous) => {
+			if (previous.status === 'ongoing' && record.status === 'completed') this.createNextOccurrence(record);
+		}));
+		this.taskApi = new TaskApi(this.app, this.taskIndex, () => this.settings.savePath);
+		this.requestAuth = new RequestAuth(() => this.settings.apiSecret);
+
+		// 监听任务行状态变化，回写到 OmniFocus
+		this.completionWatcher = new CompletionWatcher(this.app, change => this.handleTaskStateChange(change));
+		this.registerEvent(this.app.vault.on('modify', file => this.completionWatcher.handleModify(file)));
+		this.registerEvent(this.app.vault.on('rename', (file, oldPath) => this.completionWatcher.handleRename(file, oldPath)));
+		this.registerEvent(this.app.vault.on('delete', file => this.completionWatcher.handleDelete(file)));
+		this.registerEvent(this.app.workspace.on('file-open', file => {
+			if (file) this.completionWatcher.primeFile(file);
+		}));
+		this.register(() => this.scheduleOutboxFlush.cancel());
+		this.register(() => this.syncJobs.dispose());
+		this.app.workspace.onLayoutReady(async () => {
+			await this.taskIndex.build();
+			for (const entry of DailyNotes.list(this.app, this.settings.savePath)) {
+				await this.completionWatcher.primeFile(entry.file);
+			}
+			// 发送上次关闭前未发出的动作
+			this.flushOutbox();
+		});
+
+		this.statusBarEl = this.addStatusBarItem();
+		this.httpServer = new GTDHttpServer(
+			(req, res) => this.handleHttpRequest(req, res),
+			status => this.updateHttpServerStatus(status)
+		);
+		this.register(() => {
+			this.scheduleHttpServerRestart.cancel();
+			this.httpServer.stop();
+		});
+		await this.applyHttpServerSettings();
 		const ribbonIconEl = this.addRibbonIcon('ship-wheel', '同步今日任务', (evt: MouseEvent) => {
 			this.handleRibbonClick();
 		});
 
-		this.registerObsidianProtocolHandler("obsidian_gtd_sync_task", async (e) => {
-			new Notice('开始同步任务');
-			if (!e || !e.date || !/^\d{4}-\d{2}-\d{2}$/.test(e.date)) {
-				console.error('Invalid date format or missing data');
-				return;
-			}
-			this.handleDateSelected(new Date(e.date));
+		// obsidian:// 协议动作，供快捷指令、Alfred 等调用
+		const protocolActions = new ProtocolActions(this.app, this);
+		for (const action of PROTOCOL_ACTIONS) {
+			this.registerObsidianProtocolHandler(action, params => protocolActions.handle(params));
+		}
+		this.registerView(VIEW_TYPE_TIMELINE, leaf => new TimelineView(leaf, this));
+		this.addCommand({
+			id: 'open-timeline-view',
+			name: '打开时间轴视图',
+			callback: () => this.activateTimelineView(),
+		});
+		this.addCommand({
+			id: 'undo-timeline-edit',
+			name: '撤销时间轴修改',
+			checkCallback: (checking: boolean) => {
+				const key = this.getActiveTimelineHistoryKey();
+				if (!key || !this.timelineHistory.canUndo(key)) return false;
+				if (!checking) this.undoTimelineEdit(key);
+				return true;
+			},
+		});
+		this.addCommand({
+			id: 'redo-timeline-edit',
+			name: '重做时间轴修改',
+			checkCallback: (checking: boolean) => {
+				const key = this.getActiveTimelineHistoryKey();
+				if (!key || !this.timelineHistory.canRedo(key)) return false;
+				if (!checking) this.redoTimelineEdit(key);
+				return true;
+			},
+		});
+		this.addCommand({
+			id: 'quick-capture',
+			name: '快速收集任务',
+			callback: () => this.openQuickCapture(),
+		});
+		this.addRibbonIcon('inbox', '快速收集任务', () => this.openQuickCapture());
+		this.addCommand({
+			id: 'create-weekly-note',
+			name: '生成本周周笔记',
+			callback: () => this.createWeeklyNote(new Date()),
+		});
+		this.addCommand({
+			id: 'sync-today',
+			name: '同步今日任务',
+			callback: () => this.handleDateSelected(new Date()),
+		});
+		this.addCommand({
+			id: 'sync-tomorrow',
+			name: '同步明日任务',
+			callback: () => {
+				const tomorrow = new Date();
+				tomorrow.setDate(tomorrow.getDate() + 1);
+				this.handleDateSelected(tomorrow);
+			},
+		});
+		this.addCommand({
+			id: 'sync-next-7-days',
+			name: '同步未来 7 天的任务',
+			callback: () => {
+				const today = DailyNotes.formatDate(new Date());
+				this.syncDates(today, DailyNotes.addDays(today, 6));
+			},
+		});
+		this.addCommand({
+			id: 'sync-this-week',
+			name: '同步本周任务',
+			callback: () => {
+				const days = Weeks.days(Weeks.getWeek(new Date(), this.settings.firstDayOfWeek)).map(day => DailyNotes.formatDate(day));
+				this.syncDates(days[0], days[days.length - 1]);
+			},
+		});
+		this.addCommand({
+			id: 'sync-date',
+			name: '同步指定日期的任务',
+			callback: () => this.handleRibbonClick(),
+		});
+		this.addCommand({
+			id: 'open-today-note',
+			name: '打开今日笔记',
+			callback: () => this.openDailyNote(new Date()),
+		});
+		this.addCommand({
+			id: 'open-today-timeline',
+			name: '打开今日时间轴',
+			callback: () => this.activateTimelineView(DailyNotes.formatDate(new Date())),
+		});
+		this.addCommand({
+			id: 'jump-to-current-task',
+			name: '跳转到当前任务',
+			callback: () => this.jumpToCurrentTask(),
+		});
+		this.addCommand({
+			id: 'toggle-timeline-dragging',
+			name: '切换时间轴拖拽',
+			callback: () => this.toggleTimelineDragging(),
 		});
 		// Perform additional things with the ribbon
 		ribbonIconEl.addClass('obsidian-gtd-plugin-class');
-		this.addSettingTab(new SettingTab(this.app, this));
+		this.settingTab = new SettingTab(this.app, this);
+		this.addSettingTab(this.settingTab);
 
 		// 注册 timeline 代码块处理器
 		this.registerMarkdownCodeBlockProcessor('timeline', (source, el, ctx) => {
-			const options = {
-				layout: this.settings.timelineLayout,
-				intervalMinutes: this.settings.timelineIntervalMinutes,
-				showTimeSlots: true,
-				enableDragging: this.settings.enableTimelineDragging
-			};
-			const renderer = new TimelineRenderer(el, this.app, options);
+			// 每日笔记中的时间轴对应笔记的日期，代码块头部的 date 可以覆盖
+			const options = { ...this.getTimelineOptions(), date: this.getNoteDate(ctx.sourcePath) ?? undefined };
+			const renderer = new TimelineRenderer(el, this.app, options, this);
 			
 			// 将渲染器添加到集合中以便管理
 			this.timelineRenderers.add(renderer);
 			
 			// 监听timeline内容更新事件
-			el.addEventListener('timeline-content-updated', (event: CustomEvent) => {
-				console.log('Received timeline-content-updated event:', event.detail);
-				this.handleTimelineContentUpdate(event.detail, ctx);
+			// 按代码块序号和行号定位，笔记中有多个时间轴或相同的行时不会改错
+			el.addEventListener('timeline-content-updated', (event: CustomEvent<TimelineContentUpdate>) => {
+				const { oldLine, newLine, line } = event.detail;
+				const info = ctx.getSectionInfo(el);
+				const block = info ? TimelineBlocks.blockAt(info.text, info.lineStart) : -1;
+				const ref = block >= 0 && line !== undefined ? { block, line } : undefined;
+				this.handleTimelineContentUpdate({ oldLine, newLine, ref }, ctx.sourcePath, ctx.sourcePath);
+			});
+
+			// 查询模式下的任务写回所在的笔记
+			el.addEventListener('timeline-source-updated', (event: CustomEvent<TimelineSourceUpdate>) => {
+				this.updateTaskSourceLine(event.detail, ctx.sourcePath);
 			});
+
+			// 时间轴获得焦点时的撤销/重做快捷键
+			el.addEventListener('timeline-undo', () => this.undoTimelineEdit(ctx.sourcePath));
+			el.addEventListener('timeline-redo', () => this.redoTimelineEdit(ctx.sourcePath));
 			
 			ctx.addChild(renderer);
 			
@@ -91,7 +306,15 @@ export default class GTDPlugin extends Plugin {
 	
 
 	async loadSettings() {
-		this.settings = Object.assign({}, DEFAULT_SETTINGS, await this.loadData());
+		const { outbox, syncTimes, ...settings }: GTDPluginData = (await this.loadData()) ?? {};
+		this.settings = Object.assign({}, DEFAULT_SETTINGS, settings);
+		this.outbox.load(outbox);
+		this.syncTimes = syncTimes ?? {};
+		// 首次运行时为当前库生成独立密钥
+		if (!this.settings.apiSecret) {
+			this.settings.apiSecret = generateSecret();
+			await this.savePluginData();
+		}
 	const prod = process.env.NODE_ENV === "production";
       if(prod) {
         console.log(`${PLUGIN_NAME} Production mode enabled ${PLUGIN_VERSION}`);
@@ -101,10 +324,29 @@ export default class GTDPlugin extends Plugin {
 
 	}
 
+	/**
+	 * 保存设置、发件箱和同步时间到 data.json
+	 */
+	async savePluginData() {
+		const data: GTDPluginData = { ...this.settings, outbox: this.outbox.toJSON(), syncTimes: this.syncTimes };
+		await this.saveData(data);
+	}
+
 	async saveSettings() {
-		await this.saveData(this.settings);
+		await this.savePluginData();
 		// 设置保存后立即刷新所有时间轴
 		this.refreshAllTimelines();
+		this.scheduleHttpServerRestart();
+	}
+
+	/**
+	 * 重新生成 API 密钥，之前签发的令牌和签名全部失效
+	 */
+	async rotateApiSecret() {
+		this.settings.apiSecret = generateSecret();
+		this.requestAuth.reset();
+		await this.saveSettings();
+		new Notice('API 密钥已重新生成，请更新客户端配置');
 	}
 
 	/**
@@ -112,396 +354,786 @@ export default class GTDPlugin extends Plugin {
 	 */
 	refreshAllTimelines() {
 		for (const renderer of this.timelineRenderers) {
-			renderer.updateOptions({
-				layout: this.settings.timelineLayout,
-				intervalMinutes: this.settings.timelineIntervalMinutes,
-				showTimeSlots: true,
-				enableDragging: this.settings.enableTimelineDragging
-			});
+			renderer.updateOptions(this.getTimelineOptions());
+		}
+		for (const leaf of this.app.workspace.getLeavesOfType(VIEW_TYPE_TIMELINE)) {
+			if (leaf.view instanceof TimelineView) leaf.view.refresh();
+		}
+	}
+
+	getTimelineOptions(): Partial<TimelineOptions> {
+		return {
+			layout: this.settings.timelineLayout,
+			intervalMinutes: this.settings.timelineIntervalMinutes,
+			showTimeSlots: true,
+			enableDragging: this.settings.enableTimelineDragging,
+			weekDays: this.settings.timelineWeekDays,
+			showRecurring: this.settings.showRecurringTasks
+		};
+	}
+
+	getFirstDayOfWeek(): FirstDayOfWeek {
+		return this.settings.firstDayOfWeek;
+	}
+
+	getSavePath(): string {
+		return this.settings.savePath;
+	}
+
+	getApiSecret(): string {
+		return this.settings.apiSecret;
+	}
+
+	/**
+	 * 某一天的笔记上次同步的时间，没有同步过时返回 null
+	 */
+	getSyncedAt(date: string): Date | null {
+		const time = this.syncTimes[date];
+		return time ? new Date(time) : null;
+	}
+
+	/**
+	 * 最近一次同步的时间
+	 */
+	getLastSyncedAt(): Date | null {
+		const latest = Math.max(0, ...Object.values(this.syncTimes));
+		return latest ? new Date(latest) : null;
+	}
+
+	/**
+	 * 笔记对应的日期：文件名为 yyyy-mm-dd，或 front matter 中的 date
+	 */
+	getNoteDate(path: string): string | null {
+		const basename = path.split('/').pop()?.replace(/\.md$/, '') ?? '';
+		if (DailyNotes.parseDate(basename)) return basename;
+		const file = this.app.vault.getAbstractFileByPath(path);
+		const value = file instanceof TFile ? this.app.metadataCache.getFileCache(file)?.frontmatter?.date : undefined;
+		const date = typeof value === 'string' ? value.trim().slice(0, 10) : '';
+		return DailyNotes.parseDate(date) ? date : null;
+	}
+
+	lookupTask(id: string): TaskRecord[] {
+		return this.taskIndex.getById(id);
+	}
+
+	queryTasks(query: TaskQuery): TaskRecord[] {
+		return this.taskIndex.query(query);
+	}
+
+	queryOccurrences(from: string, to: string): TaskOccurrence[] {
+		return this.taskIndex.occurrences(from, to);
+	}
+
+	onTasksChanged(listener: () => void): () => void {
+		return this.taskIndex.onChange(() => listener());
+	}
+
+	/**
+	 * 把时间轴上修改的任务写回所在笔记的对应行，行号对不上时按内容查找
+	 * @param historyKey 记录到哪个时间轴的撤销记录，撤销和重做本身不记录
+	 */
+	async updateTaskSourceLine(update: TimelineSourceUpdate, historyKey?: string): Promise<boolean> {
+		try {
+			const content = await this.app.vault.adapter.read(update.path);
+			const lines = content.split('\n');
+			let lineNumber = update.lineNumber;
+			if (lines[lineNumber]?.trim() !== update.oldLine) {
+				lineNumber = lines.findIndex(line => line.trim() === update.oldLine);
+			}
+			if (lineNumber < 0) {
+				new Notice(`任务已在 ${update.path} 中被修改，请刷新后重试`);
+				return false;
+			}
+
+			// 用函数替换，任务名中的 $& 等不会被当成替换模式；行首缩进保持不变
+			lines[lineNumber] = lines[lineNumber].replace(update.oldLine, () => update.newLine);
+			const updated = lines.join('\n');
+			await this.app.vault.adapter.write(update.path, updated);
+			this.taskIndex.update(update.path, updated);
+			if (historyKey) this.timelineHistory.record(historyKey, { type: 'source', ...update, lineNumber });
+			return true;
+		} catch (error) {
+			console.error('Failed to update task line:', error);
+			new Notice(`文件保存失败: ${error.message}`);
+			return false;
 		}
 	}
 
+	/**
+	 * 完成重复任务后在它上方插入下一次
+	 * 带 OmniFocus id 的任务由 OmniFocus 按同样的规则生成下一次，下次同步时写入笔记
+	 */
+	async createNextOccurrence(record: TaskRecord) {
+		const task = record.task;
+		if (!task?.repetitionRule || record.id) return;
+		const completedAt = task.completionDate ? new Date(task.completionDate) : new Date();
+		const next = Recurrence.nextTask(task, completedAt);
+		if (!next) {
+			new Notice(`重复任务「${task.name}」已全部完成`);
+			return;
+		}
+
+		let line = TaskFormatter.setLineCompleted(record.line, false);
+		line = TaskFormatter.setLineMarker(line, '✅', null);
+		line = TaskFormatter.setLineMarker(line, '📅', next.dueDate ?? null);
+		line = TaskFormatter.setLineMarker(line, '🧊', next.deferDate ?? null);
+		line = TaskFormatter.setLineMarker(line, '🔁', next.repetitionRule ?? null);
+		try {
+			const content = await this.app.vault.adapter.read(record.path);
+			const lines = content.split('\n');
+			let lineNumber = record.lineNumber;
+			if (lines[lineNumber] !== record.line) lineNumber = lines.indexOf(record.line);
+			if (lineNumber < 0) return;
+			// 取消勾选后再勾选、撤销和重做都会再次触发，上方已经是生成的下一次时不再插入
+			if (lineNumber > 0 && this.isNextOccurrence(lines[lineNumber - 1], next)) return;
+			lines.splice(lineNumber, 0, line);
+			const updated = lines.join('\n');
+			await this.app.vault.adapter.write(record.path, updated);
+			this.taskIndex.update(record.path, updated);
+			const date = next.dueDate ?? next.deferDate;
+			new Notice(date ? `已生成下一次「${task.name}」: ${DailyNotes.formatDate(new Date(date))}` : `已重新开始「${task.name}」`);
+		} catch (error) {
+			console.error('Failed to create next occurrence:', error);
+			new Notice(`生成下一次重复任务失败: ${error.message}`);
+		}
+	}
+
+	/**
+	 * 该行是否为已生成的下一次：未完成，名称和重复规则相同，日期与下一次相同
+	 */
+	private isNextOccurrence(line: string, next: Task): boolean {
+		const existing = TaskFormatter.parseLineToTask(line);
+		if (!existing || TaskFormatter.getLineStatus(line) !== 'ongoing') return false;
+		const sameDay = (a?: string | null, b?: string | null) =>
+			(a ? DailyNotes.formatDate(new Date(a)) : null) === (b ? DailyNotes.formatDate(new Date(b)) : null);
+		return existing.name.trim() === next.name.trim()
+			&& (existing.repetitionRule ?? null) === (next.repetitionRule ?? null)
+			&& sameDay(existing.dueDate, next.dueDate)
+			&& sameDay(existing.deferDate, next.deferDate);
+	}
+
+	/**
+	 * 打开时间轴视图，已打开时切换到该视图
+	 */
+	async activateTimelineView(date?: string) {
+		let leaf = this.app.workspace.getLeavesOfType(VIEW_TYPE_TIMELINE)[0];
+		if (!leaf) {
+			leaf = this.app.workspace.getRightLeaf(false) ?? this.app.workspace.getLeaf('tab');
+			await leaf.setViewState({ type: VIEW_TYPE_TIMELINE, active: true });
+		}
+		await this.app.workspace.revealLeaf(leaf);
+		if (date && leaf.view instanceof TimelineView) await leaf.view.setDate(date);
+	}
+
+	/**
+	 * 打开某一天的每日笔记，还没有同步时提示
+	 */
+	async openDailyNote(date: Date) {
+		const path = DailyNotes.getPath(this.settings.savePath, DailyNotes.formatDate(date));
+		if (!await this.app.vault.adapter.exists(path)) {
+			new Notice(`${DailyNotes.formatDate(date)} 还没有同步的笔记`);
+			return;
+		}
+		await this.app.workspace.openLinkText(path, '', false);
+	}
+
+	/**
+	 * 滚动到正在进行或下一个任务：先找当前笔记中的时间轴，没有时打开今日时间轴视图
+	 */
+	async jumpToCurrentTask() {
+		const markdownView = this.app.workspace.getActiveViewOfType(MarkdownView);
+		if (markdownView) {
+			for (const renderer of this.timelineRenderers) {
+				if (markdownView.containerEl.contains(renderer.containerEl) && renderer.scrollToCurrentTask()) return;
+			}
+		}
+		await this.activateTimelineView(DailyNotes.formatDate(new Date()));
+		const view = this.app.workspace.getLeavesOfType(VIEW_TYPE_TIMELINE)[0]?.view;
+		if (!(view instanceof TimelineView) || !view.scrollToCurrentTask()) {
+			new Notice('今天没有正在进行或即将开始的任务');
+		}
+	}
+
+	/**
+	 * 切换时间轴拖拽，与设置中的开关相同
+	 */
+	async toggleTimelineDragging() {
+		this.settings.enableTimelineDragging = !this.settings.enableTimelineDragging;
+		await this.saveSettings();
+		new Notice(this.settings.enableTimelineDragging ? '时间轴拖拽已开启' : '时间轴拖拽已关闭');
+	}
+
 	/**
 	 * 处理timeline内容更新
+	 * @param detail.ref 渲染时任务所在的代码块和行，笔记在渲染后被修改时按 #id 或内容重新查找
+	 * @param historyKey 记录到哪个时间轴的撤销记录，撤销和重做本身不记录
 	 */
-	async handleTimelineContentUpdate(detail: { oldContent: string; newContent: string; oldLine: string; newLine: string }, ctx: MarkdownPostProcessorContext) {
+	async handleTimelineContentUpdate(detail: { oldLine: string; newLine: string; ref?: TimelineLineRef }, sourcePath?: string, historyKey?: string): Promise<boolean> {
 		
 		try {
-			// 尝试从上下文中获取文件路径
-			const sourcePath = ctx?.sourcePath;
-			
 			if (!sourcePath) {
 				new Notice(`任务已更新但无法保存到文件: ${detail.oldLine} → ${detail.newLine}`);
-				return;
+				return false;
 			}
 			
 			// 读取原文件内容
 			const fileContent = await this.app.vault.adapter.read(sourcePath);
 			
 			// 在文件内容中查找并替换timeline代码块中的对应行
-			const updatedFileContent = this.updateTimelineContentInFile(fileContent, detail.oldLine, detail.newLine);
+			const result = TimelineBlocks.replaceLine(fileContent, detail.oldLine, detail.newLine, detail.ref);
+			if (!result.ref) {
+				this.noticeTimelineWriteFailure(result, sourcePath);
+				return false;
+			}
+			if (result.status === 'merged') new Notice('任务在笔记中已被修改，已合并本次修改');
+			const updatedFileContent = result.content;
+			if (updatedFileContent === fileContent) return true;
 
-			if (updatedFileContent !== fileContent) {
-				// 写回文件
-				await this.app.vault.adapter.write(sourcePath, updatedFileContent);
+			// 写回文件
+			await this.app.vault.adapter.write(sourcePath, updatedFileContent);
+			
+			// 触发编辑器刷新以显示更新后的内容
+			const file = this.app.vault.getAbstractFileByPath(sourcePath);
+			if (file) {
+				// 方法1：触发文件修改事件，让 Obsidian 知道文件已更改
+				this.app.vault.trigger('modify', file);
 				
-				// 触发编辑器刷新以显示更新后的内容
-				const file = this.app.vault.getAbstractFileByPath(sourcePath);
-				if (file) {
-					// 方法1：触发文件修改事件，让 Obsidian 知道文件已更改
-					this.app.vault.trigger('modify', file);
-					
-					// 方法2：如果文件当前在编辑器中打开，尝试刷新视图
-					const activeView = this.app.workspace.getActiveViewOfType(MarkdownView);
-					if (activeView && activeView.file?.path === sourcePath) {
-						// 延迟一点再刷新，确保文件写入完成
-						setTimeout(async () => {
-							try {
-								await activeView.save();
-								await activeView.load();
-							} catch (e) {
-								console.log('Editor refresh failed:', e);
-							}
-						}, 50);
-					}
+				// 方法2：如果文件当前在编辑器中打开，尝试刷新视图
+				const activeView = this.app.workspace.getActiveViewOfType(MarkdownView);
+				if (activeView && activeView.file?.path === sourcePath) {
+					// 延迟一点再刷新，确保文件写入完成
+					setTimeout(async () => {
+						try {
+							await activeView.save();
+							await activeView.load();
+						} catch (e) {
+							console.log('Editor refresh failed:', e);
+						}
+					}, 50);
 				}
 			}
-			
+			if (historyKey && result.previous !== undefined && result.line !== undefined) {
+				this.timelineHistory.record(historyKey, { type: 'block', path: sourcePath, ref: result.ref, oldLine: result.previous, newLine: result.line });
+			}
+			return true;
 		} catch (error) {
 			console.error('Failed to update file:', error);
 			new Notice(`文件保存失败: ${error.message}`);
+			return false;
 		}
 	}
 	
 	/**
-	 * 在文件内容中更新timeline代码块中的指定行
+	 * 把时间轴任务移到另一天的笔记（周视图跨天拖拽）
+	 *
+	 * 先写入目标笔记再从原笔记删除，中途失败时最多留下重复的行而不会丢失任务。
 	 */
-	private updateTimelineContentInFile(fileContent: string, oldLine: string, newLine: string): string {
-		// 使用正则表达式匹配timeline代码块
-		const timelineBlockRegex = /```timeline\n([\s\S]*?)\n```/g;
-		
-		return fileContent.replace(timelineBlockRegex, (match, blockContent) => {
-			// 在代码块中查找并替换指定行
-			const updatedBlockContent = blockContent.replace(oldLine, newLine);
-			return `\`\`\`timeline\n${updatedBlockContent}\n\`\`\``;
-		});
+	async moveTimelineTask(move: TimelineTaskMove, historyKey?: string): Promise<boolean> {
+		try {
+			const source = await this.app.vault.adapter.read(move.fromPath);
+			const removed = TimelineBlocks.removeLine(source, move.oldLine, move.fromRef);
+			if (!removed.ref) {
+				this.noticeTimelineWriteFailure(removed, move.fromPath);
+				return false;
+			}
+			const remaining = removed.content;
+
+			const target = await this.app.vault.adapter.exists(move.toPath)
+				? await this.app.vault.adapter.read(move.toPath)
+				: '';
+			await this.app.vault.adapter.write(move.toPath, TimelineBlocks.appendLine(target, move.newLine));
+			await this.app.vault.adapter.write(move.fromPath, remaining);
+			new Notice(`任务已移到 ${move.toDate}`);
+			if (historyKey) this.timelineHistory.record(historyKey, { type: 'move', move });
+			return true;
+		} catch (error) {
+			console.error('Failed to move timeline task:', error);
+			new Notice(`移动任务失败: ${error.message}`);
+			return false;
+		}
+	}
+
+	/**
+	 * 时间轴的修改没有写入时提示原因
+	 */
+	private noticeTimelineWriteFailure(result: TimelineWriteResult, path: string) {
+		switch (result.status) {
+			case 'conflict':
+				new Notice(`任务已在 ${path} 中被修改，与本次修改冲突，请刷新后重试`);
+				break;
+			case 'ambiguous':
+				new Notice(`${path} 中有多个相同的任务，无法确定要修改哪一个`);
+				break;
+			default:
+				new Notice(`没有在 ${path} 中找到该任务，可能已被修改或删除`);
+		}
+	}
+
+	/**
+	 * 撤销时间轴的最近一次修改
+	 * @param key 代码块所在笔记的路径，时间轴视图为 VIEW_TYPE_TIMELINE
+	 */
+	async undoTimelineEdit(key: string) {
+		const result = await this.timelineHistory.undo(key, edit => this.applyTimelineEdit(edit));
+		if (!result) {
+			new Notice('没有可撤销的时间轴修改');
+		} else if (result.applied) {
+			new Notice(`已撤销${TimelineHistory.describe(result.edit)}`);
+		} else {
+			new Notice(`无法撤销${TimelineHistory.describe(result.edit)}：任务已被修改`);
+		}
+	}
+
+	/**
+	 * 重做时间轴最近一次撤销的修改
+	 */
+	async redoTimelineEdit(key: string) {
+		const result = await this.timelineHistory.redo(key, edit => this.applyTimelineEdit(edit));
+		if (!result) {
+			new Notice('没有可重做的时间轴修改');
+		} else if (result.applied) {
+			new Notice(`已重做${TimelineHistory.describe(result.edit)}`);
+		} else {
+			new Notice(`无法重做${TimelineHistory.describe(result.edit)}：任务已被修改`);
+		}
+	}
+
+	private applyTimelineEdit(edit: TimelineEdit): Promise<boolean> {
+		switch (edit.type) {
+			case 'block':
+				return this.handleTimelineContentUpdate(edit, edit.path);
+			case 'source':
+				return this.updateTaskSourceLine(edit);
+			case 'move':
+				return this.moveTimelineTask(edit.move);
+		}
+	}
+
+	/**
+	 * 当前时间轴的撤销记录：时间轴视图，或当前笔记中的代码块
+	 */
+	private getActiveTimelineHistoryKey(): string | null {
+		if (this.app.workspace.getActiveViewOfType(TimelineView)) return VIEW_TYPE_TIMELINE;
+		return this.app.workspace.getActiveFile()?.path ?? null;
 	}
 
 	handleRibbonClick() {
-		new DatePickerModal(this.app, (date: Date) => {
-			this.handleDateSelected(date);
-		}).open();
+		new DatePickerModal(this.app, this).open();
 	}
 
 	// 这里是一个简单的函数，用于处理日期选择器的回调
 	// 你可以根据需要修改这个函数
 	handleDateSelected(date: Date) {
-		new Notice(`你选择的日期是: ${date.toLocaleDateString()}`);
-		const { expires,token} = generateSecureKey();
-		// 保存 token 和密钥到插件实例，供 HTTP Server 验证
-		this._lastToken = token;
-		const pad = (n: number) => n.toString().padStart(2, '0');
-		const formatDateWithPad = (d: Date) => `${d.getFullYear()}-${pad(d.getMonth() + 1)}-${pad(d.getDate())}`;
-		const arg = encodeURIComponent(JSON.stringify({
-			date: formatDateWithPad(date),
-			token: token,
-			expires: expires,
-		}));
-		const openPerspective = `omnifocus://localhost/omnijs-run?script=PlugIn.find(%22com.pazer.omnifocus.gtdplugin%22).action(%22openPerspective%22).perform(argument)&arg=${arg}`;
-		window.open(openPerspective, '_blank');
-		setTimeout(() => {
-			// 这里可以放置需要延迟1秒执行的代码
-			const setPerspective = `omnifocus://localhost/omnijs-run?script=PlugIn.find(%22com.pazer.omnifocus.gtdplugin%22).action(%22setPerspective%22).perform(argument)&arg=${arg}`;
-			window.open(setPerspective, '_blank');
+		this.syncDates(DailyNotes.formatDate(date));
+	}
+
+	/**
+	 * 同步一天或一段日期，结果由同步任务提示
+	 */
+	syncDates(from: string, to?: string) {
+		this.requestSync(from, to).catch(error => {
+			new Notice(error instanceof Error ? error.message : String(error));
+		});
+	}
+
+	/**
+	 * 请求 OmniFocus 同步一天或一段日期，同步结束（完成、失败或超时）后返回
+	 * 多日同步时 OmniFocus 只导出一次，参数中带有 to
+	 */
+	async requestSync(from: string, to?: string): Promise<SyncJob> {
+		const status = this.httpServer.getStatus();
+		if (status.state !== 'listening' || !status.config) {
+			throw new Error('HTTP 服务器未运行，OmniFocus 无法回传任务，请在设置中启用');
+		}
+		const job = this.syncJobs.create(from, to);
+		// 令牌只能用于这个同步任务的回传接口
+		const { expires, token } = generateSecureKey(this.settings.apiSecret, 300, `/api/jobs/${job.id}`);
+		// 监听所有地址时，本机仍通过回环地址访问
+		const host = status.config.host === '0.0.0.0' ? '127.0.0.1' : status.config.host;
+		// 只调用一次 OmniFocus，由其插件按顺序切换透视并回传结果
+		window.open(buildPluginActionUrl('runSyncJob', {
+			jobId: job.id,
+			date: job.date,
+			...(job.to ? { to: job.to } : {}),
+			token,
+			expires,
+			endpoint: `http://${host}:${status.config.port}/api/jobs/${job.id}`,
+		}), '_blank');
+		return this.syncJobs.wait(job.id);
+	}
 
+	/**
+	 * 同步任务状态变化时提示
+	 */
+	private handleSyncJobUpdate(job: SyncJob) {
+		switch (job.status) {
+			case 'pending':
+				new Notice(job.to
+					? `已请求 OmniFocus 同步 ${this.formatJobDates(job)}（${SyncRange.days(job.date, job.to)?.length ?? 0} 天）`
+					: `已请求 OmniFocus 同步 ${job.date}`);
+				break;
+			case 'failed':
+			case 'timeout':
+				new Notice(`同步 ${this.formatJobDates(job)} 失败: ${job.error}`);
+				break;
+		}
+	}
 
-		}, 1000);
-		setTimeout(() => {
-			// 这里可以放置需要延迟1秒执行的代码
-			const urlString = `omnifocus://localhost/omnijs-run?script=PlugIn.find(%22com.pazer.omnifocus.gtdplugin%22).action(%22syncTodayTasks%22).perform(argument)&arg=${arg}`;
-			window.open(urlString, '_blank');		
-		}, 2000);
+	/**
+	 * 执行 OmniFocus 回传的同步任务结果
+	 */
+	private async runSyncJob(job: SyncJob, payload: SyncJobPayload): Promise<MergeReport> {
+		if (!job.to) {
+			const report = await this.syncTodayTasks(payload.data, payload.week, job.date);
+			if (!report) throw new Error(`写入 ${job.date} 的笔记失败`);
+			return report;
+		}
+		const days = SyncRange.days(job.date, job.to);
+		if (!days) throw new Error(`无效的同步范围 ${this.formatJobDates(job)}`);
+		const reports = await this.syncRangeTasks(payload.data, payload.week, days);
+		// 每天的变化记录在任务中，可以通过 /api/jobs/:id 查询
+		job.days = Object.fromEntries(Array.from(reports).filter((entry): entry is [string, MergeReport] => entry[1] !== null));
+		const failed = Array.from(reports).filter(([, report]) => !report).map(([date]) => date);
+		if (failed.length > 0) throw new Error(`写入 ${failed.join('、')} 的笔记失败`);
+		return SyncRange.total(Object.values(job.days));
+	}
 
+	/**
+	 * 把一次导出的任务按日期写入多天的笔记，显示进度，结束后按天汇总并打开第一天
+	 * @returns 每天的变化，写入失败的日期为 null
+	 */
+	private async syncRangeTasks(tasks: Task[], week: Task[], days: string[]): Promise<Map<string, MergeReport | null>> {
+		const reports = new Map<string, MergeReport | null>();
+		const progress = new Notice(`正在写入每日笔记 0/${days.length}`, 0);
+		try {
+			for (const [date, dayTasks] of SyncRange.split(tasks, days)) {
+				progress.setMessage(`正在写入每日笔记 ${reports.size + 1}/${days.length}：${date}`);
+				reports.set(date, await this.syncTodayTasks(dayTasks, week, date, false) ?? null);
+			}
+		} finally {
+			progress.hide();
+		}
+
+		const lines = Array.from(reports).map(([date, report]) => {
+			const day = DailyNotes.parseDate(date);
+			const label = `${date.slice(5)} ${day ? Weeks.weekdayName(day) : ''}`;
+			if (!report) return `${label}：写入失败`;
+			const { added, updated, removed } = report;
+			if (added.length + updated.length + removed.length === 0) return `${label}：无变化`;
+			return `${label}：新增 ${added.length}，更新 ${updated.length}，移除 ${removed.length}`;
+		});
+		new Notice(`已同步 ${days[0]} ~ ${days[days.length - 1]}\n${lines.join('\n')}`, 15000);
+		if (reports.get(days[0])) {
+			this.app.workspace.openLinkText(DailyNotes.getPath(this.settings.savePath, days[0]), '', false);
+		}
+		return reports;
 	}
 
-	async startHttpServer(port = 3001) {
-		const server = http.createServer((req, res) => {
-			// 验证URL
+	private formatJobDates(job: SyncJob): string {
+		return job.to ? `${job.date} ~ ${job.to}` : job.date;
+	}
+
+	/**
+	 * 任务行状态变化时加入发件箱
+	 */
+	handleTaskStateChange(change: TaskStateChange) {
+		if (this.settings.completionSyncMode === 'off') return;
+		let action: OutboxAction;
+		if (change.to === 'completed') action = 'complete';
+		else if (change.to === 'dropped') action = 'drop';
+		else action = 'uncomplete';
+		this.outbox.enqueue(change.taskId, action);
+		if (this.settings.completionSyncMode === 'url') {
+			this.scheduleOutboxFlush();
+		}
+	}
+
+	/**
+	 * 打开快速收集对话框
+	 */
+	openQuickCapture() {
+		new QuickCaptureModal(this.app, this.getQuickCaptureOptions(), this.settings.completionSyncMode !== 'off',
+			(result, chosen) => this.captureTask(result, chosen)).open();
+	}
+
+	/**
+	 * 快速收集的默认选项，回写方式为关闭时不发送到 OmniFocus
+	 */
+	getQuickCaptureOptions(): QuickCaptureOptions {
+		return { target: this.settings.quickCaptureTarget, sendToOmniFocus: this.settings.completionSyncMode !== 'off' };
+	}
+
+	/**
+	 * 按 OmniFocus id 完成任务，同一笔记中带有该 id 的行都会勾选
+	 */
+	completeTask(id: string, date?: string): Promise<TaskRecord> {
+		return this.taskApi.patchTask(id, { completed: true, date });
+	}
+
+	/**
+	 * 把收集的任务写入对应日期的每日笔记，需要时加入发件箱在 OmniFocus 中创建
+	 * 任务列表和时间轴中的行都带有 [capture:: id]，OmniFocus 同步回这个任务后删除该行，避免重复
+	 */
+	async captureTask(result: QuickCaptureResult, options: QuickCaptureOptions): Promise<boolean> {
+		const path = DailyNotes.getPath(this.settings.savePath, result.date);
+		const captureId = options.sendToOmniFocus
+			? `capture-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`
+			: null;
+		try {
+			const existing = await this.app.vault.adapter.exists(path)
+				? await this.app.vault.adapter.read(path)
+				: '';
+			let content: string;
+			if (options.target === 'timeline') {
+				content = TimelineBlocks.appendLine(existing, QuickCaptureParser.formatTimelineLine(result, captureId));
+			} else {
+				const line = TaskFormatter.format({ ...result.task, captureId });
+				const trimmed = existing.replace(/\s+$/, '');
+				content = trimmed ? `${trimmed}\n${line}\n` : `${line}\n`;
+			}
+			await this.app.vault.adapter.write(path, content);
+			this.taskIndex.update(path, content);
+		} catch (error) {
+			console.error('Failed to capture task:', error);
+			new Notice(`收集任务失败: ${error.message}`);
+			return false;
+		}
+
+		if (captureId) {
+			this.outbox.enqueue(captureId, 'create', { ...result.task, captureId });
+			if (this.settings.completionSyncMode === 'url') this.scheduleOutboxFlush();
+		}
+		new Notice(`已收集「${result.task.name}」到 ${result.date}${captureId ? '，将在 OmniFocus 中创建' : ''}`);
+		return true;
+	}
+
+	/**
+	 * 通过 URL Scheme 把发件箱中的动作发送给 OmniFocus
+	 * URL 打开后无法得到回执，发送即视为完成；需要确认机制时使用拉取模式
+	 */
+	flushOutbox() {
+		if (this.settings.completionSyncMode !== 'url' || this.outbox.size === 0) return;
+		const entries = this.outbox.pending();
+		const { expires, token } = generateSecureKey(this.settings.apiSecret);
+		window.open(buildPluginActionUrl('applyChanges', {
+			changes: entries.map(({ id, taskId, action, task }) => ({ id, taskId, action, task })),
+			token,
+			expires,
+		}), '_blank');
+		this.outbox.acknowledge(entries.map(entry => entry.id));
+		new Notice(`已向 OmniFocus 发送 ${entries.length} 个任务变更`);
+	}
+
+	/**
+	 * 处理 HTTP 请求：读取请求体、鉴权，再分发到 API 或旧的同步推送
+	 */
+	async handleHttpRequest(req: http.IncomingMessage, res: http.ServerResponse) {
+		try {
+			const body = await readBody(req);
+			// 所有路由都需要鉴权，包括 /api
+			this.requestAuth.authenticate(req, body);
+
 			const urlString = req.url;
 			if (urlString && urlString.startsWith('/api')) {
-				this.handleApiRequest(req, res);
+				await this.handleApiRequest(req, res, body);
 				return;
 			}
-			// 验证 Token
-			const token = req.headers['token'] as string | undefined;
-			const expiresHeader = req.headers['expires'] as string | undefined;
-			const expires = expiresHeader ? parseInt(expiresHeader, 10) : Math.floor(Date.now() / 1000);
-			if (token) {
-				const isValid = verifySecureKey(expires, token);
-				if (!isValid) {
-					res.writeHead(401, { 'Content-Type': 'text/plain' });
-					res.end('Invalid token.\n');
-					return;
-				}
+
+			if (body) {
+				await this.handleLegacyPush(parseJsonBody<{ data?: unknown; week?: unknown; date?: unknown }>(body));
 			}
-			let body = '';
-			req.on('data', chunk => {
-				body += chunk;
-			});
-			req.on('end', () => {
-				res.writeHead(200, { 'Content-Type': 'text/plain' });
-				if (body) {
-					try {
-						const jsonData = JSON.parse(body);
-						this.syncTodayTasks(jsonData.data, jsonData.week, jsonData.date);
-					} catch (e) {
-						console.error('Failed to parse JSON:', e);
-					}
-				}
-				res.end('GTDPlugin HTTP Server is running.\n');
-			});
-		});
-		const prod = process.env.NODE_ENV === "production";
-		if (!prod) {
-			server.listen(port, () => {
-				console.log(`HTTP server listening on port ${port}`);
-			});
+			res.writeHead(200, { 'Content-Type': 'text/plain' });
+			res.end('GTDPlugin HTTP Server is running.\n');
+		} catch (error) {
+			sendError(res, error);
 		}
-		this.register(() => server.close());
 	}
 
-	async syncTodayTasks(tasks: Task[], week: Task[],date: string) {
-		if (date === undefined || date === null || date === ''|| !/^\d{4}-\d{2}-\d{2}$/.test(date)) {
-			console.error('Invalid date');
-			return;
+	/**
+	 * 旧的同步推送：POST / { data, week, date }，写入完成后才返回，参数错误为 400，写入失败为 500
+	 */
+	private async handleLegacyPush(payload: { data?: unknown; week?: unknown; date?: unknown }) {
+		const isTaskList = (value: unknown) => Array.isArray(value) && value.every(task => task && typeof task === 'object');
+		if (!isTaskList(payload.data)) throw ApiError.badRequest('data must be an array of tasks');
+		if (payload.week !== undefined && !isTaskList(payload.week)) throw ApiError.badRequest('week must be an array of tasks');
+		if (typeof payload.date !== 'string' || !DailyNotes.parseDate(payload.date)) {
+			throw ApiError.badRequest('date must be yyyy-mm-dd');
 		}
+		const report = await this.syncTodayTasks(payload.data as Task[], (payload.week ?? []) as Task[], payload.date);
+		if (!report) throw new ApiError(500, 'internal_error', `Failed to write the daily note for ${payload.date}`);
+	}
 
+	/**
+	 * 按设置启动、停止或重启 HTTP 服务器
+	 */
+	async applyHttpServerSettings() {
+		const { httpServerEnabled, httpHost, httpPort } = this.settings;
+		if (!httpServerEnabled) {
+			await this.httpServer.stop();
+			return;
+		}
+		const config = { host: httpHost, port: httpPort };
+		if (this.httpServer.isRunningWith(config)) return;
+		try {
+			await this.httpServer.start(config);
+		} catch (error) {
+			new Notice(`GTD HTTP 服务器启动失败: ${this.httpServer.getStatus().error}`);
+		}
+	}
 
-		// 先将包含 "today" 标签的任务单独提取出来，然后按 dueDate 时间正序排序（无 dueDate 的排在最后）
-		const todayTasks = tasks.filter(task => task.tags?.includes(TODAY_TAG) && !task.completionDate && !task.dropDate);
-		const otherTasks = tasks.filter(task => !task.tags?.includes(TODAY_TAG));
-		todayTasks.sort((a, b) => {
-			if (!a.dueDate && !b.dueDate) return 0;
-			if (!a.dueDate) return 1;
-			if (!b.dueDate) return -1;
-			return new Date(a.dueDate).getTime() - new Date(b.dueDate).getTime();
-		});
-
-		otherTasks.sort((a, b) => {
-			if (!a.dueDate && !b.dueDate) return 0;
-			if (!a.dueDate) return 1;
-			if (!b.dueDate) return -1;
-			return new Date(a.dueDate).getTime() - new Date(b.dueDate).getTime();
-		});
+	/**
+	 * 服务器状态文本，用于状态栏和设置页
+	 */
+	getHttpServerStatusText(): string {
+		const status = this.httpServer.getStatus();
+		switch (status.state) {
+			case 'listening':
+				return `运行中 ${status.config?.host}:${status.config?.port}`;
+			case 'starting':
+				return '启动中';
+			case 'error':
+				return `错误: ${status.error}`;
+			default:
+				return '已停止';
+		}
+	}
 
-		tasks =  otherTasks;
-		// 按属性区分任务
-		const completedTasks = tasks.filter(task => task.completionDate);
-		const ongoingTasks = tasks.filter(task => !task.completionDate && !task.dropDate);
-		const droppedTasks = tasks.filter(task => task.dropDate);
-		const ongoingTodayTasks = todayTasks.filter(task => !task.completionDate && !task.dropDate && task.tags?.includes(TODAY_TAG));
-		const timeLineTasks = ongoingTasks.concat(ongoingTodayTasks);
-		const timeLineString = timeLineTasks.map(task => TaskFormatter.formatTimeline(task));
-		// 主任务完成，子任务也完成但是completted 为 false 的任务
-		const completedTasks_ = completedTasks.map(task => ({ ...task, completed: true }));
+	private updateHttpServerStatus(status: HttpServerStatus) {
+		if (this.statusBarEl) {
+			this.statusBarEl.setText(status.state === 'listening'
+				? `GTD API :${status.config?.port}`
+				: `GTD API ${this.getHttpServerStatusText()}`);
+			this.statusBarEl.toggleClass('gtd-http-status-error', status.state === 'error');
+		}
+		this.settingTab?.updateHttpServerStatus();
+	}
 
+	/**
+	 * @param single 单日同步时提示结果并打开笔记，多日同步由 syncRangeTasks 汇总
+	 */
+	async syncTodayTasks(tasks: Task[], week: Task[],date: string, single = true): Promise<MergeReport | undefined> {
+		const day = DailyNotes.parseDate(date);
+		if (!day) {
+			console.error('Invalid date');
+			return;
+		}
 		// 只保留 dueDate 与 date 在同一周的 week 任务
-		const isSameWeek = (d1: string, d2: string) => {
-			const date1 = new Date(d1);
-			const date2 = new Date(d2);
-			const getWeek = (d: Date) => {
-				const firstDayOfYear = new Date(d.getFullYear(), 0, 1);
-				const dayOfYear = Math.floor((d.getTime() - firstDayOfYear.getTime()) / 86400000) + 1;
-				return Math.ceil((dayOfYear + firstDayOfYear.getDay()) / 7);
-			};
-			return date1.getFullYear() === date2.getFullYear() && getWeek(date1) === getWeek(date2);
-		};
-		const weekGoals = week
-			.filter(task => task.dueDate && isSameWeek(task.dueDate, date))
-			.map(task => TaskFormatter.format(task, true));
-		const ongoingTodayLines = ongoingTodayTasks.map(task => TaskFormatter.format(task));
-		const ongoingLines = ongoingTasks.map(task => TaskFormatter.format(task));
-		const completedLines = completedTasks_.map(task => TaskFormatter.format(task));
-		const droppedLines = droppedTasks.map(task => TaskFormatter.format(task));
-
-		const lines: string[] = [];
-
-		if (weekGoals.length > 0) {
-			const weekNumber = (() => {
-				const d = new Date(date);
-				const oneJan = new Date(d.getFullYear(), 0, 1);
-				const days = Math.floor((d.getTime() - oneJan.getTime()) / 86400000);
-				return Math.ceil((days + oneJan.getDay() + 1) / 7);
-			})();
-			lines.push(`## ${new Date(date).getFullYear()}年${weekNumber}周目标 - ${weekGoals.length} 个\n`);
-			lines.push(...weekGoals);
-		}
-		if(timeLineTasks.length>0){
-			lines.push(`## TODO \n## TODO \n`);
-			lines.push(`\`\`\`timeline`);
-			lines.push(...timeLineString);
-			lines.push(`\`\`\``);
-		}
-		if (ongoingTodayLines.length > 0) {
-			const filteredOngoingTodayLines = ongoingTodayLines;
-			lines.push(`\n### 今日重点 - ${filteredOngoingTodayLines.length} 个\n`);
-			lines.push(...filteredOngoingTodayLines);
-		}
-
-		if (ongoingLines.length > 0) {
-
-			const filteredOngoingLines = ongoingLines;
-			lines.push(`\n### 今日任务 - ${filteredOngoingLines.length} 个\n`);
-			lines.push(...filteredOngoingLines);
-		}
-		if (completedLines.length > 0) {
-			lines.push(`\n### 已完成任务 - ${completedLines.length} 个\n`);
-			lines.push(...completedLines);
-		}
-		lines.push(`\n### 已丢弃任务 - ${droppedLines.length} 个\n`);
-		if (droppedLines.length > 0) lines.push(...droppedLines);
-		lines.push('\n');
-		// 将tasks 换分为三类，已完成，进行中，已丢弃
-
-		const content = lines.join('\n');
+		const weekInfo = Weeks.getWeek(day, this.settings.firstDayOfWeek);
+		const weekGoals = week.filter(task => task.dueDate && Weeks.isSameWeek(new Date(task.dueDate), day, this.settings.firstDayOfWeek));
+
+		const template = await this.loadDailyNoteTemplate();
+		const draft = template.render({
+			date,
+			year: weekInfo.year,
+			week: weekInfo.week,
+			syncedAt: new Date(),
+			groups: DailyNoteTemplate.groupTasks(tasks, weekGoals, TODAY_TAG),
+		});
 
 		// 生成文件名
 		const fileName = `${date.replace(/\//g, '-').replace(/-/g, '-').replace(/^\s+|\s+$/g, '')}.md`;
 		// settings 当中path路径加入fileName 
 		const filePath = this.settings.savePath + '/' + fileName;
-		// 写入 Obsidian 笔记
-		this.app.vault.adapter.write(filePath, content)
-			.then(() => {
-				new Notice(`任务已同步到 ${fileName}`);
-				this.app.workspace.openLinkText(filePath, '', false);
-			})
-			.catch((err: unknown) => {
-				console.error('Failed to write tasks to file:', err);
-			});
-	}
-
-	// 处理API 请求
-	async handleApiRequest(req: http.IncomingMessage, res: http.ServerResponse) {
-		const parsedUrl = url.parse(req.url ?? '', true);
-		const pathname = parsedUrl.pathname ?? '';
-		const pathSegments = pathname.split('/').filter(Boolean);
-		// 获取路径参数
-		const pathParam = pathSegments.length > 2 ? pathSegments[1] : undefined; // 提取路径参数
-		// 获取GTD 当中的任务
-		if (pathParam === 'getTasks') {
-			const date = pathSegments.length > 2 ? pathSegments[2] : undefined;
-			const type = pathSegments.length > 2 ? pathSegments[3] : undefined;
-			const dataFormatter = pathSegments.length > 2 ? pathSegments[4] : null;
-			const dateFileName = date
-				? `${date.replace(/\//g, '-').replace(/-/g, '-').replace(/^\s+|\s+$/g, '')}.md`
+		try {
+			// 只更新插件管理的区块，保留笔记中用户手写的内容
+			const existing = await this.app.vault.adapter.exists(filePath)
+				? await this.app.vault.adapter.read(filePath)
 				: '';
-			const dateFilePath = this.settings.savePath + '/' + dateFileName;
-			try {
-				let data: string;
-				try {
-					data = await this.app.vault.adapter.read(dateFilePath);
-				} catch (err) {
-					// 文件不存在则创建空文件
-					await this.app.vault.adapter.write(dateFilePath, '');
-					data = '';
-				}
-				switch (type) {
-					case 'completed': {
-						let completedTasks;
-						if (!dataFormatter) {
-							completedTasks = await this.getTasksFromMarkdown(data.split('\n').filter(line => line.startsWith('- [x]')));
-						} else {
-							completedTasks = data.split('\n').filter(line => line.startsWith('- [x]'));
-						}
-						res.writeHead(200, { 'Content-Type': 'application/json' });
-						res.end(JSON.stringify({ ok: true, data: completedTasks }));
-						break;
-					}
-					case 'ongoing': {
-						let ongoingTasks;
-						if (!dataFormatter) {
-							ongoingTasks = await this.getTasksFromMarkdown(data.split('\n').filter(line => line.startsWith('- [ ]')));
-						} else {
-							ongoingTasks = data.split('\n').filter(line => line.startsWith('- [ ]'));
-						}
-						res.writeHead(200, { 'Content-Type': 'application/json' });
-						res.end(JSON.stringify({ ok: true, data: ongoingTasks }));
-						break;
-					}
-					case 'dropped': {
-						let droppedTasks;
-						if (!dataFormatter) {
-							droppedTasks = await this.getTasksFromMarkdown(data.split('\n').filter(line => line.startsWith('❌')));
-						} else {
-							droppedTasks = data.split('\n').filter(line => line.startsWith('❌'));
-						}
-						res.writeHead(200, { 'Content-Type': 'application/json' });
-						res.end(JSON.stringify({ ok: true, data: droppedTasks }));
-						break;
-					}
-					case 'all': {
-						let allTasks;
-						if (!dataFormatter) {
-							allTasks = await this.getTasksFromMarkdown(
-								data.split('\n').filter(line => 
-									line.trim() !== '' && // 排除空行
-									!line.startsWith('#') && // 排除标题行
-									!/^\s/.test(line) // 排除缩进行
-								)
-							);
-						} else {
-							allTasks = data.split('\n').filter(line => 
-								line.trim() !== '' && // 排除空行
-								!line.startsWith('#') && // 排除标题行
-								!/^\s/.test(line) // 排除缩进行
-							);
-						}
-						res.writeHead(200, { 'Content-Type': 'application/json' });
-						res.end(JSON.stringify({ ok: true, data: allTasks }));
-						break;
-					}
-					default: {
-						res.writeHead(400, { 'Content-Type': 'text/plain' });
-						res.end('Invalid type parameter.\n');
-					}
-				}
+			const merged = DailyNoteMerger.merge(existing, draft.sections, draft.initialContent);
+			// 快速收集的任务已由 OmniFocus 创建并同步回来，删除收集时写入的行
+			const deduplicated = DailyNoteMerger.removeCapturedTasks(merged.content, tasks);
+			const content = DailyNoteMerger.mergeFrontMatter(deduplicated, draft.frontMatter);
+			const report = merged.report;
+			// 同步写入反映的是 OmniFocus 的状态，不应再回写
+			this.completionWatcher.prime(filePath, content);
+			if (content !== existing) {
+				await this.app.vault.adapter.write(filePath, content);
+				this.taskIndex.update(filePath, content);
 			}
-			catch (err) {
-				console.error(`Failed to read file: ${dateFilePath}`, err);
-				res.writeHead(500, { 'Content-Type': 'text/plain' });
-				res.end('Failed to read file.\n');
+			// 同步时间记录在插件数据中，手动修改笔记不会影响
+			this.syncTimes[date] = Date.now();
+			await this.savePluginData();
+			if (single) {
+				new Notice(`任务已同步到 ${fileName}：新增 ${report.added.length}，更新 ${report.updated.length}，移除 ${report.removed.length}`);
+				this.app.workspace.openLinkText(filePath, '', false);
 			}
+			return report;
+		} catch (err) {
+			console.error('Failed to write tasks to file:', err);
+			if (single) new Notice(`同步失败: ${err instanceof Error ? err.message : err}`);
 		}
-		if (!res.headersSent) {
-			res.writeHead(200, { 'Content-Type': 'application/json' });
-		}
-		res.end(JSON.stringify({ pathParam }));
 	}
 
-	async getTasksFromMarkdown(lines: string[]) {
-		const tasks: Task[] = [];
-
-		for (const line of lines) {
-			const task = TaskFormatter.parseLineToTask(line);
-			if (task) {
-				tasks.push(task);
+	/**
+	 * 生成或更新日期所在周的周笔记
+	 */
+	async createWeeklyNote(date: Date) {
+		try {
+			const result = await new WeeklyNote(this.app, this.taskIndex)
+				.build(this.settings.savePath, date, this.settings.firstDayOfWeek);
+			this.completionWatcher.prime(result.path, result.content);
+			if (result.content !== result.existing) {
+				await this.app.vault.adapter.write(result.path, result.content);
+				this.taskIndex.update(result.path, result.content);
 			}
+			new Notice(`周笔记已更新：${result.path}`);
+			this.app.workspace.openLinkText(result.path, '', false);
+		} catch (err) {
+			console.error('Failed to create weekly note:', err);
+			new Notice(`生成周笔记失败: ${err instanceof Error ? err.message : err}`);
 		}
-		return tasks;
 	}
 
+	/**
+	 * 读取设置中的每日笔记模板，未设置或读取失败时使用默认模板
+	 */
+	private async loadDailyNoteTemplate(): Promise<DailyNoteTemplate> {
+		const path = this.settings.dailyNoteTemplatePath.trim();
+		if (!path) return new DailyNoteTemplate();
+		const filePath = path.endsWith('.md') ? path : `${path}.md`;
+		try {
+			if (await this.app.vault.adapter.exists(filePath)) {
+				return new DailyNoteTemplate(await this.app.vault.adapter.read(filePath));
+			}
+			new Notice(`找不到每日笔记模板 ${filePath}，已使用默认模板`);
+		} catch (err) {
+			console.error('Failed to read daily note template:', err);
+			new Notice(`读取每日笔记模板失败，已使用默认模板`);
+		}
+		return new DailyNoteTemplate();
+	}
 
+	// 处理API 请求
+	async handleApiRequest(req: http.IncomingMessage, res: http.ServerResponse, body: string) {
+		if (req.url?.startsWith('/api/outbox')) {
+			await this.outboxApi.handle(req, res, body);
+			return;
+		}
+		if (req.url?.startsWith('/api/jobs')) {
+			await this.syncJobApi.handle(req, res, body);
+			return;
+		}
+		await this.taskApi.handle(req, res, body);
+	}
 }
 
 
 class SettingTab extends PluginSettingTab {
 	plugin: GTDPlugin;
+	private httpStatusSetting?: Setting;
 
 	constructor(app: App, plugin: GTDPlugin) {
 		super(app, plugin);
 		this.plugin = plugin;
 	}
 
+	/**
+	 * 服务器状态变化时刷新设置页上的状态文本
+	 */
+	updateHttpServerStatus(): void {
+		this.httpStatusSetting?.setDesc(this.plugin.getHttpServerStatusText());
+	}
+
 	display(): void {
 		const {containerEl} = this;
 
@@ -533,10 +1165,59 @@ class SettingTab extends PluginSettingTab {
 				});
 			});
 
+		new Setting(containerEl)
+			.setName('每日笔记模板')
+			.setDesc('模板文件路径，留空使用默认布局。模板语法见 README')
+			.addText(text => text
+				.setPlaceholder('Templates/GTD Daily.md')
+				.setValue(this.plugin.settings.dailyNoteTemplatePath)
+				.onChange(async (value) => {
+					this.plugin.settings.dailyNoteTemplatePath = value.trim();
+					await this.plugin.saveSettings();
+				}));
+
+		new Setting(containerEl)
+			.setName('每周第一天')
+			.setDesc('用于周目标筛选和周笔记，周数按 ISO-8601 规则计算')
+			.addDropdown(dropdown => {
+				dropdown.addOption('1', '周一');
+				dropdown.addOption('0', '周日');
+				dropdown.addOption('6', '周六');
+				dropdown.setValue(this.plugin.settings.firstDayOfWeek.toString());
+				dropdown.onChange(async (value) => {
+					this.plugin.settings.firstDayOfWeek = parseInt(value, 10) as FirstDayOfWeek;
+					await this.plugin.saveSettings();
+				});
+			});
+
 		// 时间轴设置分组
 		containerEl.createEl('h3', {text: '时间轴设置'});
 
+		new Setting(containerEl)
+			.setName('时间轴布局')
+			.setDesc('时间轴视图显示单日或一周，笔记中的 timeline 代码块总是显示单日')
+			.addDropdown(dropdown => {
+				dropdown.addOption('vertical', '单日');
+				dropdown.addOption('week', '一周');
+				dropdown.setValue(this.plugin.settings.timelineLayout);
+				dropdown.onChange(async (value) => {
+					this.plugin.settings.timelineLayout = value as TimelineLayout;
+					await this.plugin.saveSettings();
+				});
+			});
 
+		new Setting(containerEl)
+			.setName('周布局天数')
+			.setDesc('5 天只显示一周的前五天（每周第一天为周一时即工作日）')
+			.addDropdown(dropdown => {
+				dropdown.addOption('7', '7天');
+				dropdown.addOption('5', '5天');
+				dropdown.setValue(this.plugin.settings.timelineWeekDays.toString());
+				dropdown.onChange(async (value) => {
+					this.plugin.settings.timelineWeekDays = parseInt(value, 10) as 5 | 7;
+					await this.plugin.saveSettings();
+				});
+			});
 
 		new Setting(containerEl)
 			.setName('时间间隔')
@@ -562,6 +1243,168 @@ class SettingTab extends PluginSettingTab {
 					await this.plugin.saveSettings();
 				});
 			});
+
+		new Setting(containerEl)
+			.setName('显示重复任务')
+			.setDesc('在之后的日期显示重复任务的下一次（只读）')
+			.addToggle(toggle => {
+				toggle.setValue(this.plugin.settings.showRecurringTasks);
+				toggle.onChange(async (value) => {
+					this.plugin.settings.showRecurringTasks = value;
+					await this.plugin.saveSettings();
+				});
+			});
+
+		// HTTP 服务器设置分组
+		containerEl.createEl('h3', {text: 'HTTP 服务器'});
+
+		this.httpStatusSetting = new Setting(containerEl)
+			.setName('服务器状态')
+			.setDesc(this.plugin.getHttpServerStatusText());
+
+		new Setting(containerEl)
+			.setName('启用 HTTP 服务器')
+			.setDesc('为 OmniFocus 插件、快捷指令和仪表盘提供 API')
+			.addToggle(toggle => {
+				toggle.setValue(this.plugin.settings.httpServerEnabled);
+				toggle.onChange(async (value) => {
+					this.plugin.settings.httpServerEnabled = value;
+					await this.plugin.saveSettings();
+				});
+			});
+
+		new Setting(containerEl)
+			.setName('端口')
+			.setDesc('HTTP 服务器监听的端口 (1-65535)')
+			.addText(text => {
+				text.setPlaceholder('3001')
+					.setValue(this.plugin.settings.httpPort.toString())
+					.onChange(async (value) => {
+						const port = Number(value.trim());
+						if (!Number.isInteger(port) || port < 1 || port > 65535) return;
+						this.plugin.settings.httpPort = port;
+						await this.plugin.saveSettings();
+					});
+			});
+
+		new Setting(containerEl)
+			.setName('绑定地址')
+			.setDesc('默认只允许本机访问；选择局域网后其他设备也可以访问')
+			.addDropdown(dropdown => {
+				dropdown.addOption('127.0.0.1', '仅本机 (127.0.0.1)');
+				dropdown.addOption('0.0.0.0', '局域网 (0.0.0.0)');
+				if (!['127.0.0.1', '0.0.0.0'].includes(this.plugin.settings.httpHost)) {
+					dropdown.addOption(this.plugin.settings.httpHost, this.plugin.settings.httpHost);
+				}
+				dropdown.setValue(this.plugin.settings.httpHost);
+				dropdown.onChange(async (value) => {
+					this.plugin.settings.httpHost = value;
+					await this.plugin.saveSettings();
+				});
+			});
+
+		// 快速收集设置分组
+		containerEl.createEl('h3', {text: '快速收集'});
+
+		new Setting(containerEl)
+			.setName('默认添加到')
+			.setDesc('快速收集的任务写入每日笔记的位置，收集时也可以临时选择')
+			.addDropdown(dropdown => {
+				dropdown.addOption('list', '任务列表（笔记末尾）');
+				dropdown.addOption('timeline', '时间轴代码块');
+				dropdown.setValue(this.plugin.settings.quickCaptureTarget);
+				dropdown.onChange(async (value) => {
+					this.plugin.settings.quickCaptureTarget = value as QuickCaptureTarget;
+					await this.plugin.saveSettings();
+				});
+			});
+
+		// 完成状态回写设置分组
+		containerEl.createEl('h3', {text: '完成状态回写'});
+
+		new Setting(containerEl)
+			.setName('回写方式')
+			.setDesc('勾选、取消勾选或丢弃带 OmniFocus 链接的任务时，如何通知 OmniFocus')
+			.addDropdown(dropdown => {
+				dropdown.addOption('url', '立即通过 URL Scheme 发送');
+				dropdown.addOption('pull', '等待 OmniFocus 插件拉取 (/api/outbox)');
+				dropdown.addOption('off', '关闭');
+				dropdown.setValue(this.plugin.settings.completionSyncMode);
+				dropdown.onChange(async (value) => {
+					this.plugin.settings.completionSyncMode = value as CompletionSyncMode;
+					await this.plugin.saveSettings();
+					this.plugin.flushOutbox();
+				});
+			});
+
+		new Setting(containerEl)
+			.setName('发件箱')
+			.setDesc(`待发送的变更: ${this.plugin.outbox.size} 个`)
+			.addButton(button => {
+				button.setButtonText('清空')
+					.onClick(() => {
+						this.plugin.outbox.clear();
+						this.display();
+					});
+			});
+
+		// API 安全设置分组
+		containerEl.createEl('h3', {text: 'API 安全'});
+
+		new Setting(containerEl)
+			.setName('API 密钥')
+			.setDesc('HTTP 请求需使用此密钥签名：x-gtd-timestamp 为秒级时间戳，x-gtd-signature 为 HMAC-SHA256("时间戳\\n方法\\n路径\\n请求体")')
+			.addText(text => {
+				text.setValue(this.plugin.settings.apiSecret);
+				text.inputEl.type = 'password';
+				text.inputEl.readOnly = true;
+				text.inputEl.style.width = '100%';
+			})
+			.addExtraButton(button => {
+				button.setIcon('eye')
+					.setTooltip('显示/隐藏')
+					.onClick(() => {
+						const input = button.extraSettingsEl.parentElement?.querySelector('input');
+						if (input) input.type = input.type === 'password' ? 'text' : 'password';
+					});
+			})
+			.addExtraButton(button => {
+				button.setIcon('copy')
+					.setTooltip('复制密钥')
+					.onClick(async () => {
+						await navigator.clipboard.writeText(this.plugin.settings.apiSecret);
+						new Notice('API 密钥已复制');
+					});
+			});
+
+		new Setting(containerEl)
+			.setName('URL 动作密钥')
+			.setDesc('obsidian:// 的添加、完成和写入动作带上 key=此密钥 时不再弹出确认。它由 API 密钥派生，不能用来签名 HTTP 请求')
+			.addText(text => {
+				text.setValue(deriveProtocolKey(this.plugin.settings.apiSecret));
+				text.inputEl.readOnly = true;
+				text.inputEl.style.width = '100%';
+			})
+			.addExtraButton(button => {
+				button.setIcon('copy')
+					.setTooltip('复制密钥')
+					.onClick(async () => {
+						await navigator.clipboard.writeText(deriveProtocolKey(this.plugin.settings.apiSecret));
+						new Notice('URL 动作密钥已复制');
+					});
+			});
+
+		new Setting(containerEl)
+			.setName('重新生成密钥')
+			.setDesc('旧密钥和 URL 动作密钥立即失效，所有快捷指令和仪表盘都需要更新')
+			.addButton(button => {
+				button.setButtonText('重新生成')
+					.setWarning()
+					.onClick(async () => {
+						await this.plugin.rotateApiSecret();
+						this.display();
+					});
+			});
 	}
 }
 
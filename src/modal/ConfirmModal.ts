@@ -0,0 +1,52 @@
+import { App, Modal } from 'obsidian';
+
+/**
+ * 确认对话框
+ *
+ * 用于外部触发的操作（例如 obsidian:// 动作）在修改笔记前征得同意，关闭对话框视为取消。
+ */
+export class ConfirmModal extends Modal {
+    private heading: string;
+    private message: string;
+    private confirmText: string;
+    private onResult: (confirmed: boolean) => void;
+    private confirmed = false;
+
+    constructor(app: App, heading: string, message: string, confirmText: string, onResult: (confirmed: boolean) => void) {
+        super(app);
+        this.heading = heading;
+        this.message = message;
+        this.confirmText = confirmText;
+        this.onResult = onResult;
+    }
+
+    /**
+     * 打开对话框，确认时返回 true，取消或关闭时返回 false
+     */
+    static ask(app: App, heading: string, message: string, confirmText = '确定'): Promise<boolean> {
+        return new Promise(resolve => new ConfirmModal(app, heading, message, confirmText, resolve).open());
+    }
+
+    onOpen() {
+        const { contentEl } = this;
+        contentEl.empty();
+        contentEl.createEl('h2', { text: this.heading });
+        for (const line of this.message.split('\n')) {
+            contentEl.createEl('p', { text: line });
+        }
+
+        const buttons = contentEl.createDiv('modal-button-container');
+        buttons.createEl('button', { text: '取消' }).addEventListener('click', () => this.close());
+        const confirmButton = buttons.createEl('button', { text: this.confirmText, cls: 'mod-cta' });
+        confirmButton.addEventListener('click', () => {
+            this.confirmed = true;
+            this.close();
+        });
+        confirmButton.focus();
+    }
+
+    onClose() {
+        this.contentEl.empty();
+        this.onResult(this.confirmed);
+    }
+}
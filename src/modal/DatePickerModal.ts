@@ -1,72 +1,306 @@
-// 假设你已经有 Modal, App, Notice 的相关类型和实现
+import { App, Modal, TFile } from 'obsidian';
+import { MAX_SYNC_DAYS, SyncRange } from '../sync/SyncRange';
+import { TaskIndex } from '../tasks/TaskIndex';
+import { DailyNotes } from '../utils/DailyNotes';
+import { FirstDayOfWeek, Weeks } from '../utils/Weeks';
 
-import { App,  Modal, Notice, } from 'obsidian';
+/**
+ * 日期选择对话框需要插件提供的能力
+ */
+export interface DatePickerHost {
+    taskIndex: TaskIndex;
+    getSavePath(): string;
+    getFirstDayOfWeek(): FirstDayOfWeek;
+    syncDates(from: string, to?: string): void;
+    openDailyNote(date: Date): Promise<void>;
+    activateTimelineView(date?: string): Promise<void>;
+    // 同步时间记录在插件数据中
+    getSyncedAt(date: string): Date | null;
+    getLastSyncedAt(): Date | null;
+}
+
+/**
+ * 某一天的笔记和任务数量
+ */
+interface DayInfo {
+    file: TFile | null;
+    ongoing: number;
+    completed: number;
+    dropped: number;
+    // 上次从 OmniFocus 同步的时间，没有记录时为 null
+    syncedAt: string | null;
+}
 
+// 对话框底部的键盘操作说明
+const SHORTCUT_HINT = '方向键选择日期，Shift 扩展为范围，PageUp/PageDown 切换月份，Enter 同步，O 打开笔记，T 今天，M 明天，N 下周一';
 
+/**
+ * 同步日期选择对话框
+ *
+ * 月历显示哪些日期已有同步的笔记、每天的任务数量和上次同步时间。
+ * 选中一天后可以同步或打开笔记，按住 Shift 点击或使用方向键可以选择一段日期一起同步。
+ */
 export class DatePickerModal extends Modal {
-    private onDateSelected: (date: Date) => void;
+    private host: DatePickerHost;
+    // 当前显示的月份（1 日）
+    private month: Date;
+    // 键盘光标所在的日期，也是范围的一端
+    private cursor: string;
+    // 范围的另一端，单日选择时与 cursor 相同
+    private anchor: string;
+    private notes: Map<string, TFile> = new Map();
+    private monthEl?: HTMLElement;
+    private gridEl?: HTMLElement;
+    private detailEl?: HTMLElement;
 
-    constructor(app: App, onDateSelected: (date: Date) => void) {
+    constructor(app: App, host: DatePickerHost) {
         super(app);
-        this.onDateSelected = onDateSelected;
+        this.host = host;
+        this.cursor = this.anchor = DailyNotes.formatDate(new Date());
+        this.month = this.startOfMonth(this.cursor);
     }
 
     onOpen() {
         const { contentEl } = this;
         contentEl.empty();
-        // 标题
-        const title = contentEl.createEl('h2', { text: '获取OmniFocus任务的日期' });
-        title.style.textAlign = 'center';
-        title.style.marginBottom = '1em';
-        // 日期输入框
-        const input = contentEl.createEl('input', { type: 'text', placeholder: 'yyyy-mm-dd' });
-        input.style.width = '100%';
-        const today = new Date();
-        const yyyy = today.getFullYear();
-        const mm = String(today.getMonth() + 1).padStart(2, '0');
-        const dd = String(today.getDate()).padStart(2, '0');
-        input.value = `${yyyy}-${mm}-${dd}`;
-        const descption = contentEl.createEl('p', { text: '请输入日期，格式为 yyyy-mm-dd' });
-        descption.style.fontSize = '0.9em';
-        descption.style.textAlign = 'left';
-        descption.style.marginTop = '1em';
-        descption.style.marginBottom = '1em';
-
-        input.focus();
-
-        const buttonContainer = contentEl.createDiv({ cls: 'modal-button-container' });
-        buttonContainer.style.display = 'flex';
-        buttonContainer.style.justifyContent = 'center';
-        buttonContainer.style.marginTop = '1em';
-        // 确定按钮
-        const confirmButton = buttonContainer.createEl('button', { text: '同步' });
-        confirmButton.style.marginRight = '1em';
-        confirmButton.addEventListener('click', () => {
-            const value = input.value.trim();
-            const dateRegex = /^\d{4}-\d{2}-\d{2}$/;
-            if (dateRegex.test(value)) {
-            const date = new Date(value);
-                if (!isNaN(date.getTime())) {
-                this.onDateSelected(date); // 选择的日期通过回调返回
-                this.close();
-            } else {
-                new Notice('无效日期');
-            }
-            } else {
-            new Notice('请输入正确格式: yyyy-mm-dd');
-            }
+        contentEl.addClass('gtd-date-picker');
+        contentEl.createEl('h2', { text: '同步 OmniFocus 任务' });
+        this.notes = new Map(DailyNotes.list(this.app, this.host.getSavePath()).map(entry => [entry.date, entry.file]));
+
+        const lastSyncedAt = this.host.getLastSyncedAt();
+        const lastSync = lastSyncedAt ? this.formatTime(lastSyncedAt) : null;
+        contentEl.createDiv({
+            cls: 'gtd-date-picker-last-sync',
+            text: lastSync ? `上次同步：${lastSync}` : '还没有同步过',
+        });
+
+        const header = contentEl.createDiv('gtd-date-picker-header');
+        const prevButton = header.createEl('button', { text: '‹', attr: { 'aria-label': '上个月' } });
+        this.monthEl = header.createDiv('gtd-date-picker-title');
+        const nextButton = header.createEl('button', { text: '›', attr: { 'aria-label': '下个月' } });
+        const todayButton = header.createEl('button', { text: '今天' });
+        prevButton.addEventListener('click', () => this.shiftMonth(-1, false));
+        nextButton.addEventListener('click', () => this.shiftMonth(1, false));
+        todayButton.addEventListener('click', () => this.select(DailyNotes.formatDate(new Date()), false));
+
+        this.gridEl = contentEl.createDiv('gtd-date-picker-grid');
+        this.detailEl = contentEl.createDiv('gtd-date-picker-detail');
+
+        // 常用范围，点击后直接同步
+        const presets = contentEl.createDiv('gtd-date-presets');
+        for (const [label, range] of this.getPresets()) {
+            presets.createEl('button', { text: label }).addEventListener('click', () => this.sync(range.from, range.to));
+        }
+        contentEl.createDiv({ cls: 'gtd-date-picker-hint', text: SHORTCUT_HINT });
+
+        this.registerKeys();
+        this.render();
+    }
+
+    onClose() {
+        this.contentEl.empty();
+    }
+
+    private registerKeys() {
+        const moves: [string, number][] = [['ArrowLeft', -1], ['ArrowRight', 1], ['ArrowUp', -7], ['ArrowDown', 7]];
+        for (const [key, days] of moves) {
+            this.scope.register([], key, () => this.moveKey(days, false));
+            this.scope.register(['Shift'], key, () => this.moveKey(days, true));
+        }
+        this.scope.register([], 'PageUp', () => this.shiftMonth(-1, true));
+        this.scope.register([], 'PageDown', () => this.shiftMonth(1, true));
+        this.scope.register([], 'Enter', () => {
+            const { from, to } = this.getSelection();
+            this.sync(from, to);
+            return false;
         });
-        
-        // 支持回车提交
-        input.addEventListener('keydown', (e: KeyboardEvent) => {
-            if (e.key === 'Enter') {
-            confirmButton.click();
+        const today = DailyNotes.formatDate(new Date());
+        const shortcuts: [string, () => void][] = [
+            ['t', () => this.select(today, false)],
+            ['m', () => this.select(DailyNotes.addDays(today, 1), false)],
+            ['n', () => this.select(this.nextMonday(today), false)],
+            ['o', () => this.openNote(this.cursor)],
+        ];
+        for (const [key, action] of shortcuts) {
+            this.scope.register([], key, () => {
+                action();
+                return false;
+            });
+        }
+    }
+
+    private moveKey(days: number, extend: boolean): boolean {
+        this.select(DailyNotes.addDays(this.cursor, days), extend);
+        return false;
+    }
+
+    /**
+     * 选择日期，extend 为 true 时从另一端扩展为范围
+     */
+    private select(date: string, extend: boolean) {
+        this.cursor = date;
+        if (!extend) this.anchor = date;
+        this.month = this.startOfMonth(date);
+        this.render();
+    }
+
+    /**
+     * 切换月份，moveCursor 为 true 时光标移到下个月的同一天
+     */
+    private shiftMonth(delta: number, moveCursor: boolean): boolean {
+        if (moveCursor) {
+            const current = DailyNotes.parseDate(this.cursor) ?? new Date();
+            const lastDay = new Date(current.getFullYear(), current.getMonth() + delta + 1, 0).getDate();
+            this.select(DailyNotes.formatDate(new Date(current.getFullYear(), current.getMonth() + delta, Math.min(current.getDate(), lastDay))), false);
+        } else {
+            this.month = new Date(this.month.getFullYear(), this.month.getMonth() + delta, 1);
+            this.render();
+        }
+        return false;
+    }
+
+    private render() {
+        if (!this.gridEl || !this.monthEl) return;
+        this.monthEl.setText(`${this.month.getFullYear()}年${this.month.getMonth() + 1}月`);
+        this.gridEl.empty();
+
+        const firstDayOfWeek = this.host.getFirstDayOfWeek();
+        const start = Weeks.startOfWeek(this.month, firstDayOfWeek);
+        for (let i = 0; i < 7; i++) {
+            const day = new Date(start.getFullYear(), start.getMonth(), start.getDate() + i);
+            this.gridEl.createDiv({ cls: 'gtd-date-picker-weekday', text: Weeks.weekdayName(day).replace('周', '') });
+        }
+
+        const today = DailyNotes.formatDate(new Date());
+        const { from, to } = this.getSelection();
+        // 固定显示 6 周，切换月份时对话框高度不变
+        for (let i = 0; i < 42; i++) {
+            const day = new Date(start.getFullYear(), start.getMonth(), start.getDate() + i);
+            const date = DailyNotes.formatDate(day);
+            const info = this.getDayInfo(date);
+            const cell = this.gridEl.createEl('button', { cls: 'gtd-date-picker-day', attr: { tabindex: '-1' } });
+            cell.toggleClass('is-other-month', day.getMonth() !== this.month.getMonth());
+            cell.toggleClass('is-today', date === today);
+            cell.toggleClass('is-selected', date >= from && date <= to);
+            cell.toggleClass('is-cursor', date === this.cursor);
+            cell.toggleClass('has-note', info.file !== null);
+            cell.createDiv({ cls: 'gtd-date-picker-day-number', text: String(day.getDate()) });
+            if (info.file) {
+                const total = info.ongoing + info.completed;
+                cell.createDiv({ cls: 'gtd-date-picker-day-count', text: total > 0 ? `${info.completed}/${total}` : '·' });
+                cell.setAttribute('aria-label', `${date}：未完成 ${info.ongoing}，已完成 ${info.completed}`);
             }
+            cell.addEventListener('click', (event) => this.select(date, event.shiftKey));
+            cell.addEventListener('dblclick', () => this.sync(date, date));
+        }
+        this.renderDetail();
+    }
+
+    /**
+     * 选中日期的状态和操作按钮
+     */
+    private renderDetail() {
+        const detail = this.detailEl;
+        if (!detail) return;
+        detail.empty();
+        const { from, to } = this.getSelection();
+        const days = SyncRange.days(from, to);
+        const buttons = createDiv('modal-button-container');
+
+        if (from !== to) {
+            const synced = days?.filter(date => this.notes.has(date)).length ?? 0;
+            detail.createDiv({
+                cls: 'gtd-date-picker-detail-title',
+                text: days ? `${from} ~ ${to}，${days.length} 天，已同步 ${synced} 天` : `${from} ~ ${to}，超过 ${MAX_SYNC_DAYS} 天`,
+            });
+            const syncButton = buttons.createEl('button', { text: `同步 ${days?.length ?? 0} 天`, cls: 'mod-cta' });
+            syncButton.disabled = !days;
+            syncButton.addEventListener('click', () => this.sync(from, to));
+            detail.appendChild(buttons);
+            return;
+        }
+
+        const day = DailyNotes.parseDate(from);
+        const info = this.getDayInfo(from);
+        detail.createDiv({ cls: 'gtd-date-picker-detail-title', text: `${from} ${day ? Weeks.weekdayName(day) : ''}` });
+        if (info.file) {
+            detail.createDiv({ text: `未完成 ${info.ongoing}，已完成 ${info.completed}，已丢弃 ${info.dropped}` });
+            if (info.syncedAt) detail.createDiv({ cls: 'gtd-date-picker-detail-time', text: `上次同步：${info.syncedAt}` });
+        } else {
+            detail.createDiv({ text: '还没有同步的笔记' });
+        }
+
+        buttons.createEl('button', { text: '同步', cls: 'mod-cta' }).addEventListener('click', () => this.sync(from, from));
+        const openButton = buttons.createEl('button', { text: '打开笔记' });
+        openButton.disabled = !info.file;
+        openButton.addEventListener('click', () => this.openNote(from));
+        buttons.createEl('button', { text: '打开时间轴' }).addEventListener('click', () => {
+            this.close();
+            this.host.activateTimelineView(from);
         });
+        detail.appendChild(buttons);
     }
 
-    onClose() {
-        const { contentEl } = this;
-        contentEl.empty();
+    private sync(from: string, to: string) {
+        if (!SyncRange.days(from, to)) return;
+        this.close();
+        this.host.syncDates(from, to === from ? undefined : to);
+    }
+
+    private openNote(date: string) {
+        const day = DailyNotes.parseDate(date);
+        if (!day || !this.notes.has(date)) return;
+        this.close();
+        this.host.openDailyNote(day);
+    }
+
+    private getSelection(): { from: string; to: string } {
+        return this.anchor <= this.cursor
+            ? { from: this.anchor, to: this.cursor }
+            : { from: this.cursor, to: this.anchor };
+    }
+
+    private getDayInfo(date: string): DayInfo {
+        const file = this.notes.get(date) ?? null;
+        const syncedAt = this.host.getSyncedAt(date);
+        const info: DayInfo = { file, ongoing: 0, completed: 0, dropped: 0, syncedAt: syncedAt ? this.formatTime(syncedAt) : null };
+        if (!file) return info;
+        for (const record of this.host.taskIndex.getFile(file.path)) {
+            info[record.status]++;
+        }
+        return info;
+    }
+
+    private formatTime(date: Date): string {
+        const pad = (n: number) => n.toString().padStart(2, '0');
+        return `${DailyNotes.formatDate(date)} ${pad(date.getHours())}:${pad(date.getMinutes())}`;
+    }
+
+    /**
+     * 今天、明天、未来 7 天、本周和下周
+     */
+    private getPresets(): [string, { from: string; to: string }][] {
+        const today = DailyNotes.formatDate(new Date());
+        const week = (offset: number) => {
+            const from = DailyNotes.addDays(DailyNotes.formatDate(Weeks.startOfWeek(new Date(), this.host.getFirstDayOfWeek())), offset * 7);
+            return { from, to: DailyNotes.addDays(from, 6) };
+        };
+        return [
+            ['今天', { from: today, to: today }],
+            ['明天', { from: DailyNotes.addDays(today, 1), to: DailyNotes.addDays(today, 1) }],
+            ['未来 7 天', { from: today, to: DailyNotes.addDays(today, 6) }],
+            ['本周', week(0)],
+            ['下周', week(1)],
+        ];
+    }
+
+    private nextMonday(date: string): string {
+        const day = DailyNotes.parseDate(date)?.getDay() ?? 1;
+        return DailyNotes.addDays(date, (8 - day) % 7 || 7);
+    }
+
+    private startOfMonth(date: string): Date {
+        const day = DailyNotes.parseDate(date) ?? new Date();
+        return new Date(day.getFullYear(), day.getMonth(), 1);
     }
 }
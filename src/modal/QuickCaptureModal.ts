@@ -0,0 +1,145 @@
+import { App, Modal, Setting } from 'obsidian';
+import { QuickCaptureParser, QuickCaptureResult } from '../utils/QuickCaptureParser';
+import { TimeParser } from '../utils/TimeParser';
+
+/**
+ * 收集的任务写到每日笔记的任务列表或时间轴代码块
+ */
+export type QuickCaptureTarget = 'list' | 'timeline';
+
+export interface QuickCaptureOptions {
+    target: QuickCaptureTarget;
+    sendToOmniFocus: boolean;
+}
+
+/**
+ * 快速收集对话框
+ *
+ * 一行输入，输入时预览解析出的项目、标签、日期和时间，回车保存。
+ * onSubmit 返回 false 时（例如写入失败）保持对话框打开，输入不会丢失。
+ */
+export class QuickCaptureModal extends Modal {
+    private options: QuickCaptureOptions;
+    // 回写方式为关闭时不能发送到 OmniFocus
+    private canSend: boolean;
+    private onSubmit: (result: QuickCaptureResult, options: QuickCaptureOptions) => Promise<boolean>;
+    private value = '';
+    private previewEl?: HTMLElement;
+    private submitting = false;
+
+    constructor(
+        app: App,
+        options: QuickCaptureOptions,
+        canSend: boolean,
+        onSubmit: (result: QuickCaptureResult, options: QuickCaptureOptions) => Promise<boolean>
+    ) {
+        super(app);
+        this.options = { ...options, sendToOmniFocus: canSend && options.sendToOmniFocus };
+        this.canSend = canSend;
+        this.onSubmit = onSubmit;
+    }
+
+    onOpen() {
+        const { contentEl } = this;
+        contentEl.empty();
+        contentEl.addClass('gtd-quick-capture');
+        contentEl.createEl('h2', { text: '快速收集' });
+
+        const input = contentEl.createEl('input', {
+            type: 'text',
+            cls: 'gtd-quick-capture-input',
+            placeholder: '写周报 ::工作 #办公室 明天 @14:00+1h ~45m',
+        });
+        this.previewEl = contentEl.createDiv('gtd-quick-capture-preview');
+        input.addEventListener('input', () => {
+            this.value = input.value;
+            this.renderPreview();
+        });
+        input.addEventListener('keydown', (event) => {
+            if (event.key === 'Enter' && !event.isComposing) {
+                event.preventDefault();
+                this.submit();
+            }
+        });
+
+        new Setting(contentEl)
+            .setName('添加到')
+            .addDropdown(dropdown => dropdown
+                .addOption('list', '每日笔记的任务列表')
+                .addOption('timeline', '每日笔记的时间轴')
+                .setValue(this.options.target)
+                .onChange(value => {
+                    this.options.target = value as QuickCaptureTarget;
+                }));
+
+        new Setting(contentEl)
+            .setName('在 OmniFocus 中创建')
+            .setDesc(this.canSend ? '通过发件箱发送，方式与完成状态回写相同' : '完成状态回写已关闭，只写入笔记')
+            .addToggle(toggle => toggle
+                .setValue(this.options.sendToOmniFocus)
+                .setDisabled(!this.canSend)
+                .onChange(value => {
+                    this.options.sendToOmniFocus = value;
+                }));
+
+        const buttons = contentEl.createDiv('modal-button-container');
+        buttons.createEl('button', { text: '取消' }).addEventListener('click', () => this.close());
+        buttons.createEl('button', { text: '收集', cls: 'mod-cta' }).addEventListener('click', () => this.submit());
+
+        this.renderPreview();
+        input.focus();
+    }
+
+    onClose() {
+        this.contentEl.empty();
+    }
+
+    /**
+     * 显示解析出的各个字段
+     */
+    private renderPreview() {
+        const preview = this.previewEl;
+        if (!preview) return;
+        preview.empty();
+        const result = QuickCaptureParser.parse(this.value);
+        if (!result) {
+            preview.setText('::项目 #标签 @时间 ~预计时间 ! 旗标 -- 备注');
+            preview.addClass('is-empty');
+            return;
+        }
+        preview.removeClass('is-empty');
+
+        const { task } = result;
+        const fields: [string, string | undefined][] = [
+            ['名称', task.name],
+            ['项目', task.project],
+            ['标签', task.tags?.join(', ')],
+            ['日期', result.date],
+            ['时间', result.startTime ? TimeParser.formatTime(result.startTime) : undefined],
+            ['截止', result.dueTime ? TimeParser.formatTime(result.dueTime) : undefined],
+            ['持续', result.duration ? TimeParser.formatDuration(result.duration) : undefined],
+            ['预计', task.estimatedMinutes ? TimeParser.formatDuration(task.estimatedMinutes) : undefined],
+            ['重复', task.repetitionRule ?? undefined],
+            ['旗标', task.flagged ? '🚩' : undefined],
+            ['备注', task.note],
+        ];
+        for (const [label, value] of fields) {
+            if (!value) continue;
+            const row = preview.createDiv('gtd-quick-capture-field');
+            row.createSpan({ cls: 'gtd-quick-capture-label', text: label });
+            row.createSpan({ text: value });
+        }
+    }
+
+    private async submit() {
+        if (this.submitting) return;
+        const result = QuickCaptureParser.parse(this.value);
+        if (!result) return;
+        this.submitting = true;
+        try {
+            if (await this.onSubmit(result, { ...this.options })) this.close();
+        } finally {
+            this.submitting = false;
+        }
+    }
+}
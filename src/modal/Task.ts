@@ -11,6 +11,7 @@ export type Task = {
 	completionDate?: string | null;
 	estimatedMinutes?: number | null;
 	repetitionRule?: string | null;
+	repetitionMethod?: RepetitionMethod | null;  // 重复方式，默认按固定日程
 	added?: string;
 	modified?: string;
 	inInbox?: boolean;
@@ -21,6 +22,7 @@ export type Task = {
 	parent?: string;
 	folder?: string;
 	parentFolders?: string[];
+	captureId?: string | null;  // 快速收集时生成的临时 id，OmniFocus 同步回来后删除收集的行
 	// 新增字段：支持更丰富的时间信息
 	startTime?: string | null;        // 开始时间 (HH:mm 格式)
 	dueTime?: string | null;          // 截止时间 (HH:mm 格式)
@@ -28,3 +30,9 @@ export type Task = {
 	actualStartTime?: string | null;  // 实际开始时间（支持拖拽修改）
 	actualDuration?: number | null;   // 实际持续时间（支持拖拽修改）
 };
+
+// 任务在笔记中的状态：进行中、已完成、已丢弃
+export type TaskStatus = 'ongoing' | 'completed' | 'dropped';
+
+// 重复方式：固定日程、完成后重新计算截止日期、完成后重新计算推迟日期
+export type RepetitionMethod = 'fixed' | 'due-again' | 'defer-another';
@@ -1,6 +1,7 @@
 import { App, Modal, Setting } from 'obsidian';
 import { Task } from './Task';
 import { TimeParser } from '../utils/TimeParser';
+import { NaturalLanguageParser } from '../utils/NaturalLanguageParser';
 
 export interface TaskEditData {
     name: string;
@@ -83,7 +84,17 @@ export class TaskEditModal extends Modal {
             return parseInt(numMatch[1], 10);
         }
         
-        return undefined;
+        return NaturalLanguageParser.parse(trimmed)?.duration;
+    }
+
+    /**
+     * 解析时间输入，常用格式之外也接受自然语言（下午3点、2-4pm）
+     */
+    private parseTimeInput(value: string): { time?: Date; duration?: number } {
+        const parsedTime = TimeParser.parseTime(value);
+        if (parsedTime) return { time: parsedTime };
+        const parsed = NaturalLanguageParser.parse(value);
+        return { time: parsed?.startTime, duration: parsed?.duration };
     }
 
     onOpen() {
@@ -111,7 +122,7 @@ export class TaskEditModal extends Modal {
         // 开始时间设置
         new Setting(contentEl)
             .setName('开始时间')
-            .setDesc('设置任务的开始时间 (格式: HH:MM)')
+            .setDesc('设置任务的开始时间 (格式: HH:MM，也可以输入 下午3点、2-4pm)')
             .addText(text => {
                 const currentTime = this.editData.startTime ? 
                     TimeParser.formatTime(this.editData.startTime) : '';
@@ -122,8 +133,10 @@ export class TaskEditModal extends Modal {
                             this.editData.startTime = undefined;
                         } else {
                             try {
-                                const parsedTime = TimeParser.parseTime(value);
-                                this.editData.startTime = parsedTime || undefined;
+                                const parsed = this.parseTimeInput(value);
+                                this.editData.startTime = parsed.time;
+                                // 输入时间段时同时设置持续时间
+                                if (parsed.time && parsed.duration) this.editData.duration = parsed.duration;
                             } catch (error) {
                                 console.warn('Invalid time format:', value);
                             }
@@ -167,8 +180,7 @@ export class TaskEditModal extends Modal {
                             this.editData.dueTime = undefined;
                         } else {
                             try {
-                                const parsedTime = TimeParser.parseTime(value);
-                                this.editData.dueTime = parsedTime || undefined;
+                                this.editData.dueTime = this.parseTimeInput(value).time;
                             } catch (error) {
                                 console.warn('Invalid time format:', value);
                             }
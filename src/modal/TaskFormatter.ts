@@ -1,6 +1,40 @@
-import { Task } from './Task';
+import { Task, TaskStatus } from './Task';
 
 export class TaskFormatter {
+	// 匹配任务链接中的 OmniFocus id
+	private static LINK_ID_REGEX = /omnifocus:\/\/\/task\/([\w-]+)/;
+	// 匹配时间轴行末尾的 #of-id，of- 前缀用来和行末的普通标签区分
+	private static HASH_ID_REGEX = /(?:^|\s)#of-([\w-]+)\s*$/;
+	// 旧版时间轴行末尾没有前缀的 #id，无法和标签区分，只在同步时与新数据中的 id 对照
+	private static LEGACY_HASH_ID_REGEX = /(?:^|\s)#([\w-]+)\s*$/;
+	// 匹配时间轴时间标记：@时间 或 @时间+持续时间 或 @时间-时间
+	private static TIME_MARKER_REGEX = /@\d{1,2}:\d{2}(?:[-+]\d{1,2}:\d{2}|[+-]\d+(?:h|min))?/g;
+	// 时间轴行：复选框、名称，以及从第一个 @时间、due:、🚩、🏷️、#标签或 id、[字段::] 开始的其余部分
+	private static TIMELINE_LINE_REGEX = /^(\s*-\s*\[(.)\]\s*)(.*?)((?:\s+(?:@|due:|🚩|🏷️|#|\[\w+::)\S*.*)?)$/u;
+	// 手写任务行中名称之后第一个标记的位置
+	private static TAIL_START_REGEX = /\s(?:🚩|🗄|🏷|🧊|📅|⌛|🔁|✅|📔|\[\w+::|@\d{1,2}:\d{2}|#[\w-]+\s*$)/;
+	// 没有 emoji 标记的字段以 [字段:: 值] 的形式写在任务行中
+	private static INLINE_FIELDS: Record<string, keyof Task> = {
+		'added': 'added',
+		'modified': 'modified',
+		'inbox': 'inInbox',
+		'children': 'hasChildren',
+		'container': 'assignedContainer',
+		'parent': 'parent',
+		'folder': 'folder',
+		'folders': 'parentFolders',
+		'start': 'startTime',
+		'dueTime': 'dueTime',
+		'duration': 'duration',
+		'actualStart': 'actualStartTime',
+		'actualDuration': 'actualDuration',
+		'repeat': 'repetitionMethod',
+		'capture': 'captureId',
+	};
+	private static LIST_FIELDS: Array<keyof Task> = ['parentFolders'];
+	private static NUMBER_FIELDS: Array<keyof Task> = ['duration', 'actualDuration'];
+	private static BOOLEAN_FIELDS: Array<keyof Task> = ['inInbox', 'hasChildren'];
+
 	private static WEEKDAY_MAP: Record<string, string> = {
 		'MO': '周一', 'TU': '周二', 'WE': '周三', 'TH': '周四',
 		'FR': '周五', 'SA': '周六', 'SU': '周日'
@@ -63,40 +97,39 @@ export class TaskFormatter {
 	}
 
 
+	/**
+	 * 格式化为可读的任务行，可以用 parseLineToTask 还原：
+	 * - [ ] [名称](omnifocus:///task/id) 🚩 🗄️ 项目 🏷️ 标签1, 标签2 🧊 推迟 📅 截止 ⌛ 30min 🔁 RRULE ✅ 完成 [字段:: 值] 📔 备注
+	 * 丢弃的任务以 ❌ 丢弃时间 开头，没有 id 的任务只写名称
+	 */
 	static format(task: Task,weekGoals=false): string {
 		const parts: string[] = [];
-				// 将task 所有的key 和value 格式化为json字符串，组成一个URL的参数；
-		const allTaskProps = this.extractAllKeysAndValues(task);
-		const taskParams = encodeURIComponent(JSON.stringify(allTaskProps));
-		// let taskName = `task.projectask.name`;
-		const nameParts = [
-			// Array.isArray(task.parentFolders) ? task.parentFolders.join('/') : task.parentFolders,
-			`【${task.project}】`,
-			task.name,
-		].filter(Boolean);
-		let taskName = nameParts.join('');
-		taskName = taskName.replace(/[\r\n]/g, '').slice(0, 100);
+		const title = task.id
+			? `[${this.escapeLinkText(task.name)}](omnifocus:///task/${task.id})`
+			: task.name.replace(/[\r\n]+/g, ' ').trim();
 		if (weekGoals) {
-			parts.push(` [${taskName}](omnifocus:///task/${task.id}?params=${taskParams})`);
-
-		}else if (task.dropDate) {
-			const date = new Date(task.dropDate);
-			parts.push(`❌ ${date.getHours().toString().padStart(2, '0')}:${date.getMinutes().toString().padStart(2, '0')} [${taskName}](omnifocus:///task/${task.id}?params=${taskParams})`);
+			parts.push(` ${title}`);
+		} else if (task.dropDate) {
+			parts.push(`❌ ${this.formatDateTime(task.dropDate)} ${title}`);
 		} else {
-			parts.push(`- [${task.completed ? 'x' : ' '}] [${taskName}](omnifocus:///task/${task.id}?params=${taskParams})`);
+			parts.push(`- [${task.completed ? 'x' : ' '}] ${title}`);
 		}
 		if (task.flagged) parts.push('🚩');
+		if (task.project) parts.push(`🗄️ ${task.project}`);
 		if (task.tags?.length) parts.push(`🏷️ ${task.tags.join(', ')}`);
-		if (task.dueDate) {
-			const date = new Date(task.dueDate);
-			parts.push(`📅 ${date.getHours().toString().padStart(2, '0')}:${date.getMinutes().toString().padStart(2, '0')}`);
-		}
-
-		if (task.completionDate) {
-			const date = new Date(task.completionDate);
-			parts.push(`✅ ${date.getHours().toString().padStart(2, '0')}:${date.getMinutes().toString().padStart(2, '0')}`);
+		if (task.deferDate) parts.push(`🧊 ${this.formatDateTime(task.deferDate)}`);
+		if (task.dueDate) parts.push(`📅 ${this.formatDateTime(task.dueDate)}`);
+		if (task.estimatedMinutes) parts.push(`⌛ ${task.estimatedMinutes}min`);
+		if (task.repetitionRule) parts.push(`🔁 ${task.repetitionRule}`);
+		if (task.completionDate) parts.push(`✅ ${this.formatDateTime(task.completionDate)}`);
+		for (const [key, field] of Object.entries(this.INLINE_FIELDS)) {
+			const value = task[field];
+			if (value === undefined || value === null || value === '' || value === false) continue;
+			if (Array.isArray(value) && value.length === 0) continue;
+			const text = Array.isArray(value) ? value.join(', ') : String(value);
+			parts.push(`[${key}:: ${this.escapeValue(text)}]`);
 		}
-		// if (task.note && !weekGoals) parts.push(`📔 ${task.note.replace(/\r?\n/g, ' ')}`);
+		if (task.note) parts.push(`📔 ${this.escapeValue(task.note)}`);
 		return parts.join(' ');
 	}
 
@@ -106,7 +139,7 @@ export class TaskFormatter {
 		// let taskName = `task.projectask.name`;
 		const nameParts = [
 			// Array.isArray(task.parentFolders) ? task.parentFolders.join('/') : task.parentFolders,
-			`【${task.project}】`,
+			task.project && `【${task.project}】`,
 			task.name,
 		].filter(Boolean);
 		let taskName = nameParts.join('');
@@ -115,7 +148,7 @@ export class TaskFormatter {
 			const date = new Date(task.dropDate);
 			parts.push(`❌ ${date.getHours().toString().padStart(2, '0')}:${date.getMinutes().toString().padStart(2, '0')} ${taskName}	`);
 		} else {
-			parts.push(`- [ ]${task.completed ? 'x' : ' '} ${taskName}`);
+			parts.push(`- [${task.completed ? 'x' : ' '}] ${taskName}`);
 		}
 		if (task.flagged) parts.push('🚩');
 		if (task.tags?.length) parts.push(`🏷️ ${task.tags.join(', ')}`);
@@ -127,23 +160,294 @@ export class TaskFormatter {
 			const startDate = new Date(date.getTime() - estimatedMinutes * 60000);
 			parts.push(`@${startDate.getHours().toString().padStart(2, '0')}:${startDate.getMinutes().toString().padStart(2, '0')}-${date.getHours().toString().padStart(2, '0')}:${date.getMinutes().toString().padStart(2, '0')}`);
 		}
-		parts.push(`#${task.id}`);
+		parts.push(`#of-${task.id}`);
 		// if (task.note && !weekGoals) parts.push(`📔 ${task.note.replace(/\r?\n/g, ' ')}`);
 		return parts.join(' ');
 	}
 
-	static parseLineToTask(line: string): any {
-		// - [ ] [「回归」2.声音是人的第二名片](omnifocus:///task/mRkb257lHbX) 🗄️ 配音学习 🏷️ Today 你好 🔁 每天 📅 13:30 ⌛ 30分钟 🧊 23:59 ✅ 23:59 📔 你好
-		//  [跑步30km](omnifocus:///task/fIM-Mu_UUkV?params=%7B%22name%22%3A%22%E8%B7%91%E6%AD%A530km%22%2C%22id%22%3A%22fIM-Mu_UUkV%22%2C%22note%22%3A%22%22%2C%22dueDate%22%3A%222025-05-24T01%3A00%3A00.000Z%22%2C%22deferDate%22%3Anull%2C%22dropDate%22%3Anull%2C%22flagged%22%3Atrue%2C%22completed%22%3Afalse%2C%22completionDate%22%3Anull%2C%22estimatedMinutes%22%3Anull%2C%22added%22%3A%222025-05-17T10%3A22%3A01.466Z%22%2C%22repetitionRule%22%3A%22%22%2C%22modified%22%3A%222025-05-17T10%3A26%3A24.274Z%22%2C%22inInbox%22%3Afalse%2C%22tags%22%3A%5B%22Week%22%5D%2C%22hasChildren%22%3Afalse%2C%22assignedContainer%22%3Anull%2C%22project%22%3A%22%E7%9B%AE%E6%A0%87%22%2C%22parent%22%3A%22%E7%9B%AE%E6%A0%87%22%2C%22folder%22%3A%22%E8%AE%A1%E5%88%92%E4%B8%8E%E7%9B%AE%E6%A0%87%22%2C%22parentFolders%22%3A%5B%22%E8%AE%A1%E5%88%92%E4%B8%8E%E7%9B%AE%E6%A0%87%22%5D%7D) 🚩 🏷️ Week
+	/**
+	 * 从任务行还原任务，支持 format 生成的行、时间轴行、手写任务和旧版 ?params= 链接，非任务行返回 null
+	 */
+	static parseLineToTask(line: string): Task | null {
+		// 旧版格式：链接中带有 URL 编码的完整任务 JSON
+		//  [跑步30km](omnifocus:///task/fIM-Mu_UUkV?params=%7B%22name%22%3A%22%E8%B7%91%E6%AD%A530km%22%2C%22id%22%3A%22fIM-Mu_UUkV%22%7D) 🚩 🏷️ Week
 		const paramsMatch = line.match(/\?params=([^)\]]+)/);
 		if (paramsMatch) {
 			try {
 				const jsonStr = decodeURIComponent(paramsMatch[1]);
-				const obj = JSON.parse(jsonStr);
-				return obj;
+				return JSON.parse(jsonStr) as Task;
 			} catch (e) {
 				return null;
 			}
 		}
+
+		let rest = line.trim();
+		const task: Task = { id: '', name: '' };
+		const checkbox = rest.match(/^-\s*\[(.)\]\s*/);
+		const drop = rest.match(/^❌\s*(\d{4}-\d{2}-\d{2}(?:\s+\d{1,2}:\d{2}(?::\d{2})?)?)?(?:\s*\d{1,2}:\d{2})?\s*/);
+		if (checkbox) {
+			task.completed = checkbox[1].toLowerCase() === 'x';
+			rest = rest.slice(checkbox[0].length);
+		} else if (drop) {
+			if (drop[1]) task.dropDate = this.parseDateTime(drop[1]);
+			rest = rest.slice(drop[0].length);
+		} else if (!this.LINK_ID_REGEX.test(rest)) {
+			return null;
+		}
+
+		const link = rest.match(/^\[((?:\\.|[^\]\\])*)\]\(omnifocus:\/\/\/task\/([\w-]+)[^)]*\)/);
+		if (link) {
+			task.name = link[1].replace(/\\(.)/g, '$1');
+			task.id = link[2];
+			rest = rest.slice(link[0].length);
+		} else {
+			const tailStart = rest.search(this.TAIL_START_REGEX);
+			task.name = (tailStart >= 0 ? rest.slice(0, tailStart) : rest).trim();
+			rest = tailStart >= 0 ? rest.slice(tailStart) : '';
+		}
+
+		const noteIndex = rest.indexOf('📔');
+		if (noteIndex >= 0) {
+			task.note = this.unescapeValue(rest.slice(noteIndex + '📔'.length).trim());
+			rest = rest.slice(0, noteIndex);
+		}
+
+		rest = rest.replace(/\[(\w+)::\s*((?:\\.|[^\]\\])*)\]/g, (field, key: string, raw: string) => {
+			const target = this.INLINE_FIELDS[key];
+			if (!target) return field;
+			const value = this.unescapeValue(raw.trim());
+			if (this.LIST_FIELDS.includes(target)) {
+				Object.assign(task, { [target]: value.split(',').map(item => item.trim()).filter(Boolean) });
+			} else if (this.NUMBER_FIELDS.includes(target)) {
+				Object.assign(task, { [target]: Number(value) });
+			} else if (this.BOOLEAN_FIELDS.includes(target)) {
+				Object.assign(task, { [target]: value === 'true' });
+			} else {
+				Object.assign(task, { [target]: value });
+			}
+			return '';
+		});
+
+		const hashMatch = rest.match(this.HASH_ID_REGEX);
+		if (hashMatch && hashMatch.index !== undefined) {
+			if (!task.id) task.id = hashMatch[1];
+			rest = rest.slice(0, hashMatch.index);
+		}
+
+		const timeMatch = rest.match(/@(\d{1,2}:\d{2})(?:-(\d{1,2}:\d{2})|\+(\S+))?/);
+		if (timeMatch) {
+			task.startTime = timeMatch[1].padStart(5, '0');
+			if (timeMatch[2]) task.dueTime = timeMatch[2].padStart(5, '0');
+			if (timeMatch[3]) task.duration = this.parseDuration(timeMatch[3]);
+			rest = rest.replace(timeMatch[0], '');
+		}
+
+		task.flagged = false;
+		const tokens = rest.split(/(🚩|🗄\uFE0F?|🏷\uFE0F?|🧊|📅|⌛\uFE0F?|🔁|✅)/);
+		for (let i = 1; i < tokens.length; i += 2) {
+			const marker = tokens[i].replace(/\uFE0F/g, '');
+			const value = tokens[i + 1].trim();
+			switch (marker) {
+				case '🚩': task.flagged = true; break;
+				case '🗄': task.project = value; break;
+				case '🏷': task.tags = value.split(',').map(tag => tag.trim()).filter(Boolean); break;
+				case '🧊': task.deferDate = this.parseDateTime(value); break;
+				case '📅': task.dueDate = this.parseDateTime(value); break;
+				case '⌛': task.estimatedMinutes = this.parseDuration(value); break;
+				case '🔁': task.repetitionRule = value; break;
+				case '✅': task.completionDate = this.parseDateTime(value); break;
+			}
+		}
+
+		// 旧版任务行和时间轴行在名称前写【项目】
+		const projectPrefix = task.name.match(/^【([^】]*)】(.*)$/);
+		if (projectPrefix && !task.project) {
+			task.project = projectPrefix[1];
+			task.name = projectPrefix[2];
+		}
+		return task;
+	}
+
+	private static formatDateTime(value: string): string {
+		const date = new Date(value);
+		if (isNaN(date.getTime())) return value;
+		const pad = (n: number) => n.toString().padStart(2, '0');
+		const seconds = date.getSeconds() ? `:${pad(date.getSeconds())}` : '';
+		return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())} ${pad(date.getHours())}:${pad(date.getMinutes())}${seconds}`;
+	}
+
+	/**
+	 * 解析本地时间 yyyy-MM-dd HH:mm[:ss]，返回 ISO 字符串；只有时间的旧格式无法还原日期，返回 undefined
+	 */
+	private static parseDateTime(value: string): string | undefined {
+		const match = value.match(/^(\d{4})-(\d{2})-(\d{2})(?:\s+(\d{1,2}):(\d{2})(?::(\d{2}))?)?$/);
+		if (!match) return undefined;
+		const [, year, month, day, hours = '0', minutes = '0', seconds = '0'] = match;
+		return new Date(+year, +month - 1, +day, +hours, +minutes, +seconds).toISOString();
+	}
+
+	/**
+	 * 解析时长：30min、1h30min、1.5h、30分钟、1:30 或纯数字（分钟）
+	 */
+	private static parseDuration(value: string): number | undefined {
+		const clock = value.match(/^(\d+):(\d{2})$/);
+		if (clock) return parseInt(clock[1], 10) * 60 + parseInt(clock[2], 10);
+		const match = value.match(/^(?:(\d+(?:\.\d+)?)\s*(?:h|小时))?\s*(?:(\d+)\s*(?:min|m|分钟)?)?$/);
+		if (!match || (!match[1] && !match[2])) return undefined;
+		return Math.round(parseFloat(match[1] ?? '0') * 60) + parseInt(match[2] ?? '0', 10);
+	}
+
+	private static escapeLinkText(text: string): string {
+		return text.replace(/[\r\n]+/g, ' ').replace(/[\\[\]]/g, '\\$&');
+	}
+
+	/**
+	 * 转义字段值中的反斜杠、右方括号和换行，保证任务行仍是单行
+	 */
+	private static escapeValue(text: string): string {
+		return text.replace(/[\\\]]/g, '\\$&').replace(/\r?\n/g, '\\n');
+	}
+
+	private static unescapeValue(text: string): string {
+		return text.replace(/\\(.)/g, (_, char: string) => char === 'n' ? '\n' : char);
+	}
+
+	/**
+	 * 从任务行中提取 OmniFocus id，支持链接和时间轴行末尾的 #of-id，普通标签不算 id
+	 */
+	static extractTaskId(line: string): string | null {
+		const linkMatch = line.match(this.LINK_ID_REGEX);
+		if (linkMatch) return linkMatch[1];
+		const hashMatch = line.match(this.HASH_ID_REGEX);
+		return hashMatch ? hashMatch[1] : null;
+	}
+
+	/**
+	 * 旧版时间轴行末尾的 #id，调用方需要确认它确实是 OmniFocus 中存在的 id
+	 */
+	static extractLegacyHashId(line: string): string | null {
+		if (line.includes('omnifocus:///task/')) return null;
+		const hashMatch = line.match(this.LEGACY_HASH_ID_REGEX);
+		return hashMatch ? hashMatch[1] : null;
+	}
+
+	/**
+	 * 获取任务行的状态，非任务行返回 null
+	 */
+	static getLineStatus(line: string): TaskStatus | null {
+		const trimmed = line.trim();
+		if (trimmed.startsWith('❌')) return 'dropped';
+		const checkbox = trimmed.match(/^-\s*\[(.)\]/);
+		if (!checkbox) return null;
+		if (checkbox[1] === 'x' || checkbox[1] === 'X') return 'completed';
+		if (checkbox[1] === '-') return 'dropped';
+		return 'ongoing';
+	}
+
+	/**
+	 * 切换任务行的完成状态
+	 */
+	static setLineCompleted(line: string, completed: boolean): string {
+		return line.replace(/^(\s*)-\s*\[.\]/, `$1- [${completed ? 'x' : ' '}]`);
+	}
+
+	/**
+	 * 修改任务行中 emoji 标记的值，value 为 null 时删除该标记
+	 * 没有该标记时插入到 [字段::]、@时间、#id 和备注之前
+	 * 日期标记的值为 ISO 字符串，原来只写日期且新值在零点时仍只写日期
+	 */
+	static setLineMarker(line: string, marker: '🧊' | '📅' | '🔁' | '✅', value: string | null): string {
+		const noteIndex = line.indexOf(' 📔');
+		const head = noteIndex >= 0 ? line.substring(0, noteIndex) : line;
+		const note = noteIndex >= 0 ? line.substring(noteIndex) : '';
+
+		const start = head.indexOf(` ${marker}`);
+		let oldValue = '';
+		let end = start;
+		if (start >= 0) {
+			const rest = head.substring(start + marker.length + 1);
+			const valueEnd = rest.search(this.TAIL_START_REGEX);
+			oldValue = (valueEnd >= 0 ? rest.substring(0, valueEnd) : rest).trim();
+			end = start + marker.length + 1 + (valueEnd >= 0 ? valueEnd : rest.length);
+		}
+
+		let text = value;
+		if (value !== null && marker !== '🔁') {
+			text = this.formatDateTime(value);
+			if (text.endsWith(' 00:00') && (start < 0 || !/\d:\d{2}/.test(oldValue))) text = text.slice(0, -' 00:00'.length);
+		}
+		const replacement = text === null ? '' : ` ${marker} ${text}`;
+
+		if (start >= 0) return head.substring(0, start) + replacement + head.substring(end) + note;
+		if (!replacement) return line;
+		const insertAt = head.search(/\s(?:\[\w+::|@\d{1,2}:\d{2}|#[\w-]+\s*$)/);
+		if (insertAt < 0) return head.replace(/\s+$/, '') + replacement + note;
+		return head.substring(0, insertAt) + replacement + head.substring(insertAt) + note;
+	}
+
+	/**
+	 * 修改任务行中的任务名称
+	 * 链接行只替换链接文本（保留【项目】前缀），时间轴行替换复选框与第一个标记之间的文本
+	 */
+	static setLineName(line: string, name: string): string {
+		const safeName = name.replace(/[\r\n]/g, ' ').replace(/[[\]]/g, '').trim();
+		const linkMatch = line.match(/\[([^\]]*)\]\(omnifocus:\/\/\/task\//);
+		if (linkMatch && linkMatch.index !== undefined) {
+			const prefix = linkMatch[1].match(/^【[^】]*】/)?.[0] ?? '';
+			const start = linkMatch.index + 1;
+			return line.substring(0, start) + prefix + safeName + line.substring(start + linkMatch[1].length);
+		}
+		const parts = this.splitTimelineLine(line);
+		return parts ? `${parts.prefix}${safeName}${parts.tail}` : line;
+	}
+
+	/**
+	 * 拆分时间轴行：复选框前缀、完成状态、名称和名称之后的标记（时间、旗标、标签、字段和 #of-id 等），非任务行返回 null
+	 */
+	static splitTimelineLine(line: string): { prefix: string; status: string; name: string; tail: string } | null {
+		const match = line.match(this.TIMELINE_LINE_REGEX);
+		return match ? { prefix: match[1], status: match[2], name: match[3].trim(), tail: match[4] } : null;
+	}
+
+	/**
+	 * 删除任务行中的开始时间：@ 时间标记和 [start:: ] 字段，任务不再按开始时间显示在时间轴上；备注中的内容不变
+	 */
+	static removeLineTime(line: string): string {
+		const noteIndex = line.indexOf(' 📔');
+		const head = noteIndex >= 0 ? line.substring(0, noteIndex) : line;
+		const note = noteIndex >= 0 ? line.substring(noteIndex) : '';
+		return head
+			.replace(new RegExp(`\\s*${this.TIME_MARKER_REGEX.source}`, 'g'), '')
+			.replace(/\s*\[start::[^\]]*\]/g, '') + note;
+	}
+
+	/**
+	 * 修改任务行中的时间标记，替换最后一个 @ 标记，没有则插入到 #id 之前
+	 * 备注（📔 之后）中的内容不作为时间标记，新标记也插入到备注之前
+	 * @param startTime HH:mm 格式的开始时间
+	 * @param duration 持续时间（分钟）
+	 */
+	static setLineTime(line: string, startTime: string, duration?: number | null): string {
+		let marker = `@${startTime}`;
+		if (duration && duration > 0) {
+			marker += duration >= 60 && duration % 60 === 0 ? `+${duration / 60}h` : `+${duration}min`;
+		}
+
+		const noteIndex = line.indexOf(' 📔');
+		const head = noteIndex >= 0 ? line.substring(0, noteIndex) : line;
+		const note = noteIndex >= 0 ? line.substring(noteIndex) : '';
+
+		const markers = head.match(this.TIME_MARKER_REGEX);
+		if (markers && markers.length > 0) {
+			const lastMarker = markers[markers.length - 1];
+			const lastIndex = head.lastIndexOf(lastMarker);
+			return head.substring(0, lastIndex) + marker + head.substring(lastIndex + lastMarker.length) + note;
+		}
+
+		const hashMatch = head.match(this.HASH_ID_REGEX);
+		if (hashMatch && hashMatch.index !== undefined) {
+			return `${head.substring(0, hashMatch.index)} ${marker}${head.substring(hashMatch.index)}${note}`;
+		}
+		return `${head} ${marker}${note}`;
 	}
 }
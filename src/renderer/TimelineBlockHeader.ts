@@ -0,0 +1,227 @@
+import { TaskStatus } from '../modal/Task';
+import { TaskQuery } from '../tasks/TaskIndex';
+import { DailyNotes } from '../utils/DailyNotes';
+import type { TimelineOptions } from './TimelineRenderer';
+
+/**
+ * 解析后的代码块头部
+ */
+export interface TimelineBlockHeaderResult {
+    options: Partial<TimelineOptions>;
+    // 头部占用的行数，之后是任务行
+    lineCount: number;
+    errors: string[];
+}
+
+const HEADER_LINE = /^\s*([A-Za-z]+)\s*:\s*(.*?)\s*$/;
+const STATUSES: TaskStatus[] = ['ongoing', 'completed', 'dropped'];
+// 查询条件：key:value 或 key:"带空格的值"
+const QUERY_TERM = /\w+:(?:"[^"]*"|\S+)/g;
+
+/**
+ * timeline 代码块的选项头部
+ *
+ * 代码块开头的 `key: value` 行（可以用 --- 包围）覆盖全局设置：
+ *
+ * ```timeline
+ * interval: 15
+ * start: 8
+ * end: 12
+ * slots: full
+ * date: 2026-10-19
+ * readonly: true
+ * show: ongoing, completed
+ * query: tag:#Today date:today
+ * recurring: false
+ * ---
+ * - [ ] 晨会 @9:00
+ * ```
+ *
+ * 不用 --- 包围时只识别已知的键，遇到第一行其他内容即结束。
+ * query 从任务索引中查询任务显示在时间轴上，修改会写回任务所在的笔记。
+ */
+export class TimelineBlockHeader {
+    static readonly KEYS = ['interval', 'start', 'end', 'slots', 'date', 'readonly', 'show', 'query', 'recurring'];
+
+    static parse(content: string): TimelineBlockHeaderResult {
+        const lines = content.split('\n');
+        const result: TimelineBlockHeaderResult = { options: {}, lineCount: 0, errors: [] };
+
+        let index = 0;
+        while (index < lines.length && !lines[index].trim()) index++;
+        const fenced = lines[index]?.trim() === '---';
+        if (fenced) index++;
+
+        for (; index < lines.length; index++) {
+            const line = lines[index].trim();
+            if (line === '---') {
+                // 结束分隔线，不用 --- 开头时也允许用它隔开任务
+                index++;
+                break;
+            }
+            if (!line) {
+                if (fenced) continue;
+                break;
+            }
+            // 缺少结束分隔线时，遇到任务行即结束
+            if (/^-\s*\[/.test(line)) break;
+            const match = line.match(HEADER_LINE);
+            const key = match?.[1].toLowerCase();
+            if (!match || !key || !this.KEYS.includes(key)) {
+                if (!fenced) break;
+                result.errors.push(`无法识别的选项: ${line}`);
+                continue;
+            }
+            const error = this.apply(result.options, key, match[2]);
+            if (error) result.errors.push(error);
+        }
+
+        // 没有任何选项时不占用行
+        const hasHeader = fenced || Object.keys(result.options).length > 0 || result.errors.length > 0;
+        result.lineCount = hasHeader ? index : 0;
+        // 查询单日时，时间轴默认就是那一天
+        const query = result.options.query;
+        if (query?.from && query.from === query.to && !result.options.date) {
+            result.options.date = query.from;
+        }
+        if (result.options.startHour !== undefined && result.options.endHour !== undefined
+            && result.options.startHour >= result.options.endHour) {
+            result.errors.push('start 必须早于 end');
+            delete result.options.startHour;
+            delete result.options.endHour;
+        }
+        return result;
+    }
+
+    /**
+     * 应用一个选项，值无效时返回错误信息
+     */
+    private static apply(options: Partial<TimelineOptions>, key: string, value: string): string | null {
+        switch (key) {
+            case 'interval': {
+                const minutes = parseInt(value, 10);
+                if (![15, 30, 60].includes(minutes)) return `interval 只能是 15、30 或 60: ${value}`;
+                options.intervalMinutes = minutes;
+                return null;
+            }
+            case 'start':
+            case 'end': {
+                const hour = this.parseHour(value);
+                if (hour === null) return `${key} 应为 0-24 的小时数: ${value}`;
+                if (key === 'start') options.startHour = hour;
+                else options.endHour = hour;
+                return null;
+            }
+            case 'slots':
+                if (value !== 'dynamic' && value !== 'full') return `slots 只能是 dynamic 或 full: ${value}`;
+                options.dynamicTimeSlots = value === 'dynamic';
+                return null;
+            case 'date':
+                if (!DailyNotes.parseDate(value)) return `date 应为 yyyy-mm-dd: ${value}`;
+                options.date = value;
+                return null;
+            case 'readonly': {
+                const flag = this.parseBoolean(value);
+                if (flag === null) return `readonly 只能是 true 或 false: ${value}`;
+                options.readOnly = flag;
+                return null;
+            }
+            case 'recurring': {
+                const flag = this.parseBoolean(value);
+                if (flag === null) return `recurring 只能是 true 或 false: ${value}`;
+                options.showRecurring = flag;
+                return null;
+            }
+            case 'show': {
+                const values = value.split(',').map(item => item.trim().toLowerCase()).filter(Boolean);
+                if (values.includes('all')) {
+                    options.statuses = [...STATUSES];
+                    return null;
+                }
+                const invalid = values.filter(item => !STATUSES.includes(item as TaskStatus));
+                if (values.length === 0 || invalid.length > 0) {
+                    return `show 只能包含 ${STATUSES.join('、')} 或 all: ${value}`;
+                }
+                options.statuses = values as TaskStatus[];
+                return null;
+            }
+            case 'query': {
+                const query = this.parseQuery(value);
+                if (typeof query === 'string') return query;
+                options.query = query;
+                return null;
+            }
+        }
+        return null;
+    }
+
+    /**
+     * 解析查询条件：tag、project、status、path、date、from、to，日期可以写 today、tomorrow、yesterday
+     */
+    static parseQuery(value: string): TaskQuery | string {
+        const query: TaskQuery = {};
+        const invalid: string[] = [];
+        const terms = value.match(QUERY_TERM) ?? [];
+        if (value.replace(QUERY_TERM, '').trim()) invalid.push(value.replace(QUERY_TERM, '').trim());
+
+        for (const raw of terms) {
+            const separator = raw.indexOf(':');
+            const key = raw.substring(0, separator).toLowerCase();
+            const term = raw.substring(separator + 1).replace(/^"|"$/g, '').trim();
+            switch (key) {
+                case 'tag':
+                    query.tag = term.replace(/^#/, '');
+                    break;
+                case 'project':
+                    query.project = term;
+                    break;
+                case 'path':
+                    query.path = term;
+                    break;
+                case 'status':
+                    if (STATUSES.includes(term as TaskStatus)) query.status = term as TaskStatus;
+                    else invalid.push(raw);
+                    break;
+                case 'date':
+                case 'from':
+                case 'to': {
+                    const date = this.resolveDate(term);
+                    if (!date) {
+                        invalid.push(raw);
+                        break;
+                    }
+                    if (key !== 'to') query.from = date;
+                    if (key !== 'from') query.to = date;
+                    break;
+                }
+                default:
+                    invalid.push(raw);
+            }
+        }
+
+        if (invalid.length > 0) return `无法识别的查询条件: ${invalid.join(' ')}`;
+        if (Object.keys(query).length === 0) return 'query 至少需要一个条件';
+        return query;
+    }
+
+    private static resolveDate(value: string): string | null {
+        const today = DailyNotes.formatDate(new Date());
+        const relative: Record<string, number> = { yesterday: -1, today: 0, tomorrow: 1 };
+        if (value.toLowerCase() in relative) return DailyNotes.addDays(today, relative[value.toLowerCase()]);
+        return DailyNotes.parseDate(value) ? value : null;
+    }
+
+    private static parseHour(value: string): number | null {
+        const match = value.match(/^(\d{1,2})(?::00)?$/);
+        if (!match) return null;
+        const hour = parseInt(match[1], 10);
+        return hour <= 24 ? hour : null;
+    }
+
+    private static parseBoolean(value: string): boolean | null {
+        const normalized = value.toLowerCase();
+        if (['true', 'yes', 'on'].includes(normalized)) return true;
+        if (['false', 'no', 'off'].includes(normalized)) return false;
+        return null;
+    }
+}
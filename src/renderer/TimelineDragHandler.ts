@@ -1,3 +1,4 @@
+import { TaskFormatter } from '../modal/TaskFormatter';
 import { TimeParser } from '../utils/TimeParser';
 
 /**
@@ -8,20 +9,76 @@ export interface DragEventData {
     originalLine: string;
     startTime?: Date;
     duration?: number;
+    // 周视图中任务所在的日期
+    date?: string;
+    // 任务在时间轴内容中的行号
+    lineIndex?: number;
 }
 
+/**
+ * 拖放的来源和目标日期，目标日期与来源不同时表示跨天移动
+ */
+export interface DropTarget {
+    fromDate?: string;
+    toDate?: string;
+    // 任务在时间轴内容中的行号，用于写回时定位
+    lineIndex?: number;
+}
+
+/**
+ * 指针位置对应的时间槽和时间
+ */
+interface SlotHit {
+    slot: HTMLElement;
+    time: Date;
+    date?: string;
+}
+
+/**
+ * 正在进行的拖拽
+ */
+interface DragSession {
+    element: HTMLElement;
+    data: DragEventData;
+    pointerId: number;
+    // 按下时指针相对任务顶部和左侧的偏移
+    offsetX: number;
+    offsetY: number;
+    clientX: number;
+    clientY: number;
+    ghost: HTMLElement;
+    ghostTime: HTMLElement;
+    scroller: HTMLElement | null;
+    frame?: number;
+    hit: SlotHit | null;
+}
+
+// 触摸时长按多久拿起任务，拿起前移动超过 LONG_PRESS_TOLERANCE 视为滚动
+const LONG_PRESS_MS = 350;
+const LONG_PRESS_TOLERANCE = 8;
+// 鼠标移动超过该距离才开始拖拽，否则视为点击
+const MOUSE_DRAG_THRESHOLD = 4;
+// 指针距离滚动区域边缘多近时自动滚动，以及每帧最大滚动距离
+const AUTOSCROLL_EDGE = 40;
+const AUTOSCROLL_SPEED = 16;
+
 /**
  * 时间轴拖拽处理器
+ *
+ * 基于 Pointer Events，鼠标、触摸和手写笔都可以使用：鼠标按下后移动即开始拖拽，触摸需要长按拿起任务，
+ * 避免与页面滚动冲突。拖拽时显示跟随指针的预览和吸附到间隔的时间，靠近滚动区域边缘时自动滚动。
+ * 底部的手柄上下拖动调整持续时间，按时间槽高度换算分钟数。
  */
 export class TimelineDragHandler {
     private container: HTMLElement;
     private intervalMinutes: number;
-    private onTaskUpdate?: (oldLine: string, newLine: string) => void;
+    private onTaskUpdate?: (oldLine: string, newLine: string, target?: DropTarget) => void;
+    private session: DragSession | null = null;
 
     constructor(
-        container: HTMLElement, 
+        container: HTMLElement,
         intervalMinutes = 30,
-        onTaskUpdate?: (oldLine: string, newLine: string) => void
+        onTaskUpdate?: (oldLine: string, newLine: string, target?: DropTarget) => void
     ) {
         this.container = container;
         this.intervalMinutes = intervalMinutes;
@@ -32,80 +89,86 @@ export class TimelineDragHandler {
      * 为任务元素添加拖拽功能
      */
     addDragToTask(element: HTMLElement, taskData: DragEventData): void {
-        element.setAttribute('draggable', 'true');
         element.classList.add('timeline-draggable');
-        
-        element.addEventListener('dragstart', (e) => {
-            if (e.dataTransfer) {
-                e.dataTransfer.setData('application/json', JSON.stringify(taskData));
-                e.dataTransfer.effectAllowed = 'move';
+
+        let pending: { pointerId: number; x: number; y: number; timer?: number } | null = null;
+        // 拖拽结束后浏览器仍会触发 click，不应打开编辑
+        let suppressClick = false;
+
+        const cancelPending = () => {
+            if (pending?.timer) window.clearTimeout(pending.timer);
+            pending = null;
+        };
+
+        element.addEventListener('pointerdown', (e) => {
+            if (this.session || !e.isPrimary || (e.pointerType === 'mouse' && e.button !== 0)) return;
+            const target = e.target as HTMLElement;
+            if (target.closest('.timeline-resize-handle, .clickable-toggle')) return;
+            pending = { pointerId: e.pointerId, x: e.clientX, y: e.clientY };
+            if (e.pointerType !== 'mouse') {
+                const start = pending;
+                start.timer = window.setTimeout(() => {
+                    if (pending !== start) return;
+                    pending = null;
+                    this.startDrag(element, taskData, e.pointerId, start.x, start.y);
+                }, LONG_PRESS_MS);
+            }
+        });
+
+        element.addEventListener('pointermove', (e) => {
+            if (this.session?.element === element && this.session.pointerId === e.pointerId) {
+                this.moveDrag(e.clientX, e.clientY);
+                return;
+            }
+            if (!pending || pending.pointerId !== e.pointerId) return;
+            const distance = Math.hypot(e.clientX - pending.x, e.clientY - pending.y);
+            if (e.pointerType !== 'mouse') {
+                if (distance > LONG_PRESS_TOLERANCE) cancelPending();
+            } else if (distance > MOUSE_DRAG_THRESHOLD) {
+                const { x, y } = pending;
+                cancelPending();
+                this.startDrag(element, taskData, e.pointerId, x, y);
+                this.moveDrag(e.clientX, e.clientY);
             }
-            element.classList.add('dragging');
-            this.highlightDropZones();
         });
-        
-        element.addEventListener('dragend', () => {
-            element.classList.remove('dragging');
-            this.clearDropZoneHighlights();
+
+        element.addEventListener('pointerup', (e) => {
+            cancelPending();
+            if (this.session?.element !== element || this.session.pointerId !== e.pointerId) return;
+            suppressClick = true;
+            window.setTimeout(() => suppressClick = false, 0);
+            this.endDrag(true);
         });
-    }
 
-    /**
-     * 设置拖拽目标区域
-     */
-    setupDropZones(): void {
-        // 为时间槽添加拖拽目标功能
-        const timeSlots = this.container.querySelectorAll('.timeline-time-slot, .timeline-slot');
-
-        timeSlots.forEach(slot => {
-            const el = slot as HTMLElement;
-            // 防止重复初始化同一元素
-            if (el.getAttribute('data-dropzone-initialized') === 'true') return;
-            this.addDropZoneEvents(el);
-            el.setAttribute('data-dropzone-initialized', 'true');
+        element.addEventListener('pointercancel', () => {
+            cancelPending();
+            if (this.session?.element === element) this.endDrag(false);
         });
+
+        element.addEventListener('click', (e) => {
+            if (!suppressClick) return;
+            suppressClick = false;
+            e.preventDefault();
+            e.stopPropagation();
+        }, true);
+
+        // 长按时不弹出系统菜单，拖拽时阻止页面滚动
+        element.addEventListener('contextmenu', (e) => {
+            if (pending || this.session?.element === element) e.preventDefault();
+        });
+        element.addEventListener('touchmove', (e) => {
+            if (this.session?.element === element) e.preventDefault();
+        }, { passive: false });
     }
 
     /**
      * 为时间槽设置时间数据
      */
-    setTimeSlotData(element: HTMLElement, time: Date): void {
+    setTimeSlotData(element: HTMLElement, time: Date, date?: string): void {
         element.setAttribute('data-time', time.toISOString());
-    }
-
-    /**
-     * 为元素添加拖拽目标事件
-     */
-    private addDropZoneEvents(element: HTMLElement): void {
-        element.addEventListener('dragover', (e) => {
-            e.preventDefault();
-            if (e.dataTransfer) {
-                e.dataTransfer.dropEffect = 'move';
-            }
-            element.classList.add('drag-over');
-        });
-        
-        element.addEventListener('dragleave', () => {
-            element.classList.remove('drag-over');
-        });
-        
-        element.addEventListener('drop', (e) => {
-            e.preventDefault();
-            element.classList.remove('drag-over');
-            
-            if (!e.dataTransfer) return;
-            
-            try {
-                const data = JSON.parse(e.dataTransfer.getData('application/json')) as DragEventData;
-                const newTime = this.getTimeFromDropTarget(element);
-                
-                if (newTime) {
-                    this.handleTaskDrop(data, newTime);
-                }
-            } catch (error) {
-                console.error('Failed to handle task drop:', error);
-            }
-        });
+        if (date) {
+            element.setAttribute('data-date', date);
+        }
     }
 
     /**
@@ -123,49 +186,201 @@ export class TimelineDragHandler {
     }
 
     /**
-     * 清理高亮（以及在 renderer 卸载时可调用以确保 UI 清理）
+     * 取消正在进行的拖拽并清理高亮（在 renderer 卸载或关闭拖拽时调用）
      */
     dispose(): void {
+        if (this.session) this.endDrag(false);
         this.clearDropZoneHighlights();
     }
 
     /**
-     * 从拖拽目标获取时间
+     * 拿起任务：生成预览并开始跟随指针
+     */
+    private startDrag(element: HTMLElement, data: DragEventData, pointerId: number, clientX: number, clientY: number): void {
+        const rect = element.getBoundingClientRect();
+        const ghost = element.cloneNode(true) as HTMLElement;
+        ghost.className = `${element.className} timeline-drag-ghost`;
+        ghost.querySelector('.timeline-resize-handle')?.remove();
+        ghost.style.position = 'fixed';
+        ghost.style.left = `${rect.left}px`;
+        ghost.style.top = `${rect.top}px`;
+        ghost.style.width = `${rect.width}px`;
+        ghost.style.height = `${rect.height}px`;
+        const ghostTime = ghost.createDiv('timeline-drag-ghost-time');
+        document.body.appendChild(ghost);
+
+        try {
+            element.setPointerCapture(pointerId);
+        } catch {
+            // 指针已经释放时无法捕获，仍可在任务范围内继续拖拽
+        }
+        element.classList.add('dragging');
+        this.highlightDropZones();
+        navigator.vibrate?.(10);
+
+        this.session = {
+            element,
+            data,
+            pointerId,
+            offsetX: clientX - rect.left,
+            offsetY: clientY - rect.top,
+            clientX,
+            clientY,
+            ghost,
+            ghostTime,
+            scroller: this.findScrollParent(this.container),
+            hit: null,
+        };
+        this.moveDrag(clientX, clientY);
+        this.autoScroll();
+    }
+
+    /**
+     * 移动预览，按预览顶部的位置计算吸附后的时间
      */
-    private getTimeFromDropTarget(element: HTMLElement): Date | null {
-        // 检查是否有时间数据属性
+    private moveDrag(clientX: number, clientY: number): void {
+        const session = this.session;
+        if (!session) return;
+        session.clientX = clientX;
+        session.clientY = clientY;
+        const left = clientX - session.offsetX;
+        const top = clientY - session.offsetY;
+        session.ghost.style.left = `${left}px`;
+        session.ghost.style.top = `${top}px`;
+
+        const hit = this.hitTest(clientX, top);
+        if (hit?.slot !== session.hit?.slot) {
+            session.hit?.slot.classList.remove('drag-over');
+            hit?.slot.classList.add('drag-over');
+        }
+        session.hit = hit;
+        session.ghostTime.setText(hit ? TimeParser.formatTime(hit.time) : '');
+    }
+
+    /**
+     * 结束拖拽，drop 为 false 时只清理不写回
+     */
+    private endDrag(drop: boolean): void {
+        const session = this.session;
+        if (!session) return;
+        this.session = null;
+        if (session.frame) window.cancelAnimationFrame(session.frame);
+        session.ghost.remove();
+        session.element.classList.remove('dragging');
+        if (session.element.hasPointerCapture?.(session.pointerId)) {
+            session.element.releasePointerCapture(session.pointerId);
+        }
+        this.clearDropZoneHighlights();
+
+        const hit = session.hit;
+        if (!drop || !hit) return;
+        const date = hit.date ?? session.data.date;
+        if (session.data.startTime && hit.time.getTime() === session.data.startTime.getTime() && date === session.data.date) return;
+        this.handleTaskDrop(session.data, hit.time, date);
+    }
+
+    /**
+     * 指针靠近滚动区域上下边缘时逐帧滚动，越靠近越快
+     */
+    private autoScroll(): void {
+        const session = this.session;
+        if (!session) return;
+        const scroller = session.scroller;
+        if (scroller) {
+            const rect = scroller.getBoundingClientRect();
+            let delta = 0;
+            if (session.clientY < rect.top + AUTOSCROLL_EDGE) {
+                delta = -Math.ceil((rect.top + AUTOSCROLL_EDGE - session.clientY) / AUTOSCROLL_EDGE * AUTOSCROLL_SPEED);
+            } else if (session.clientY > rect.bottom - AUTOSCROLL_EDGE) {
+                delta = Math.ceil((session.clientY - rect.bottom + AUTOSCROLL_EDGE) / AUTOSCROLL_EDGE * AUTOSCROLL_SPEED);
+            }
+            delta = Math.max(-AUTOSCROLL_SPEED * 2, Math.min(AUTOSCROLL_SPEED * 2, delta));
+            if (delta !== 0) {
+                const before = scroller.scrollTop;
+                scroller.scrollTop += delta;
+                // 滚动后时间槽移动了，重新计算目标时间
+                if (scroller.scrollTop !== before) this.moveDrag(session.clientX, session.clientY);
+            }
+        }
+        session.frame = window.requestAnimationFrame(() => this.autoScroll());
+    }
+
+    /**
+     * 找到 x 所在列中 y 所在的时间槽，超出范围时取最近的时间槽
+     * 时间按时间槽内的位置换算后吸附到间隔
+     */
+    private hitTest(clientX: number, clientY: number): SlotHit | null {
+        const slots = Array.from(this.container.querySelectorAll<HTMLElement>('.timeline-slot[data-time]'));
+        const rects = slots.map(slot => ({ slot, rect: slot.getBoundingClientRect() }));
+        const inColumn = rects.filter(({ rect }) => clientX >= rect.left && clientX <= rect.right);
+        const candidates = inColumn.length > 0 ? inColumn : rects;
+
+        let best: { slot: HTMLElement; rect: DOMRect } | null = null;
+        let bestDistance = Infinity;
+        for (const item of candidates) {
+            const distance = clientY < item.rect.top ? item.rect.top - clientY
+                : clientY > item.rect.bottom ? clientY - item.rect.bottom : 0;
+            if (distance < bestDistance) {
+                best = item;
+                bestDistance = distance;
+            }
+        }
+        if (!best) return null;
+
+        const slotTime = this.getSlotTime(best.slot);
+        if (!slotTime) return null;
+        const ratio = best.rect.height > 0
+            ? Math.max(0, Math.min(1, (clientY - best.rect.top) / best.rect.height))
+            : 0;
+        const time = new Date(slotTime.getTime() + ratio * this.intervalMinutes * 60 * 1000);
+        return {
+            slot: best.slot,
+            time: TimeParser.roundToInterval(time, this.intervalMinutes),
+            date: best.slot.getAttribute('data-date') ?? undefined,
+        };
+    }
+
+    /**
+     * 从时间槽获取时间
+     */
+    private getSlotTime(element: HTMLElement): Date | null {
         const timeStr = element.getAttribute('data-time');
         if (timeStr) {
             return new Date(timeStr);
         }
-        
+
         // 尝试从文本内容解析时间
         const textContent = element.textContent?.trim();
         if (textContent) {
             return TimeParser.parseTime(textContent);
         }
-        
+
         return null;
     }
 
+    /**
+     * 最近的可以竖向滚动的祖先元素
+     */
+    private findScrollParent(element: HTMLElement): HTMLElement | null {
+        let current = element.parentElement;
+        while (current) {
+            const overflow = getComputedStyle(current).overflowY;
+            if ((overflow === 'auto' || overflow === 'scroll') && current.scrollHeight > current.clientHeight) return current;
+            current = current.parentElement;
+        }
+        return document.scrollingElement as HTMLElement | null;
+    }
+
     /**
      * 处理任务拖拽
      */
-    private handleTaskDrop(data: DragEventData, newTime: Date): void {
-        console.log('TimelineDragHandler.handleTaskDrop called:', { originalLine: data.originalLine, newTime });
-        
-        // 调整到最近的间隔时间
-        const adjustedTime = TimeParser.roundToInterval(newTime, this.intervalMinutes);
-        console.log('Adjusted time:', adjustedTime);
-        
+    private handleTaskDrop(data: DragEventData, newTime: Date, targetDate?: string): void {
         // 生成新的任务行
-        const newLine = this.generateUpdatedTaskLine(data, adjustedTime);
-        console.log('Generated new line:', newLine);
-        
+        const newLine = this.generateUpdatedTaskLine(data, newTime);
+
         // 触发更新回调
         if (this.onTaskUpdate) {
-            console.log('Calling onTaskUpdate callback');
-            this.onTaskUpdate(data.originalLine, newLine);
+            this.onTaskUpdate(data.originalLine, newLine, { fromDate: data.date, toDate: targetDate ?? data.date, lineIndex: data.lineIndex });
         } else {
             console.warn('No onTaskUpdate callback available');
         }
@@ -175,43 +390,8 @@ export class TimelineDragHandler {
      * 生成更新后的任务行
      */
     private generateUpdatedTaskLine(data: DragEventData, newStartTime: Date): string {
-        const { originalLine, duration } = data;
-        
-        // 生成新的时间字符串
-        let newTimeStr = `@${TimeParser.formatTime(newStartTime)}`;
-        
-        if (duration && duration > 0) {
-            if (duration >= 60 && duration % 60 === 0) {
-                // 整小时
-                newTimeStr += `+${duration / 60}h`;
-            } else {
-                // 分钟
-                newTimeStr += `+${duration}min`;
-            }
-        }
-        
-        // 使用正则表达式替换原始行中最后一个时间标记（通常是拖拽的那个）
-        // 匹配模式：@时间 或 @时间+持续时间 或 @时间-时间
-        const timeMarkers = originalLine.match(/@\d{1,2}:\d{2}(?:[-+]\d{1,2}:\d{2}|[+-]\d+(?:h|min))?/g);
-        
-        let updatedLine = originalLine;
-        if (timeMarkers && timeMarkers.length > 0) {
-            // 获取最后一个时间标记（这通常是我们拖拽的那个）
-            const lastTimeMarker = timeMarkers[timeMarkers.length - 1];
-            const lastIndex = originalLine.lastIndexOf(lastTimeMarker);
-            
-            // 只替换最后一个时间标记
-            updatedLine = originalLine.substring(0, lastIndex) + 
-                         newTimeStr + 
-                         originalLine.substring(lastIndex + lastTimeMarker.length);
-        }
-        
-        // 如果没有找到可替换的时间标记，就在行末添加新的时间
-        if (!updatedLine.includes(newTimeStr) && updatedLine === originalLine) {
-            updatedLine = `${originalLine} ${newTimeStr}`;
-        }
-        
-        return updatedLine;
+        // 替换最后一个时间标记（通常是拖拽的那个），没有则插入新的时间
+        return TaskFormatter.setLineTime(data.originalLine, TimeParser.formatTime(newStartTime), data.duration);
     }
 
     /**
@@ -236,65 +416,67 @@ export class TimelineDragHandler {
     }
 
     /**
-     * 添加调整大小功能
+     * 添加调整大小功能：拖动任务底部的手柄改变持续时间
      */
     addResizeToTask(element: HTMLElement, taskData: DragEventData): void {
+        if (!taskData.startTime) return;
+        const startTime = taskData.startTime;
         const resizeHandle = element.createDiv('timeline-resize-handle');
         resizeHandle.setAttribute('title', '拖拽调整持续时间');
-        
-        let isResizing = false;
-        let startX = 0;
-        let startWidth = 0;
-        
-        resizeHandle.addEventListener('mousedown', (e) => {
+
+        let resizing: { pointerId: number; startY: number; startHeight: number; pixelsPerMinute: number; duration: number } | null = null;
+
+        resizeHandle.addEventListener('pointerdown', (e) => {
+            if (this.session || !e.isPrimary || (e.pointerType === 'mouse' && e.button !== 0)) return;
             e.preventDefault();
-            isResizing = true;
-            startX = e.clientX;
-            startWidth = element.offsetWidth;
-            
-            document.addEventListener('mousemove', handleMouseMove);
-            document.addEventListener('mouseup', handleMouseUp);
+            e.stopPropagation();
+            const startHeight = element.getBoundingClientRect().height;
+            resizing = {
+                pointerId: e.pointerId,
+                startY: e.clientY,
+                startHeight,
+                pixelsPerMinute: this.getPixelsPerMinute(),
+                duration: taskData.duration ?? 0,
+            };
+            resizeHandle.setPointerCapture(e.pointerId);
+            element.classList.add('resizing');
         });
-        
-        const handleMouseMove = (e: MouseEvent) => {
-            if (!isResizing) return;
-            
-            const deltaX = e.clientX - startX;
-            const newWidth = Math.max(50, startWidth + deltaX); // 最小宽度50px
-            element.style.width = `${newWidth}px`;
-        };
-        
-        const handleMouseUp = () => {
-            if (!isResizing) return;
-            
-            isResizing = false;
-            document.removeEventListener('mousemove', handleMouseMove);
-            document.removeEventListener('mouseup', handleMouseUp);
-            
-            // 计算新的持续时间
-            const newDuration = this.calculateDurationFromWidth(element);
-            const newTaskData = { ...taskData, duration: newDuration };
-            
+
+        resizeHandle.addEventListener('pointermove', (e) => {
+            if (!resizing || resizing.pointerId !== e.pointerId) return;
+            const height = Math.max(resizing.pixelsPerMinute * this.intervalMinutes, resizing.startHeight + e.clientY - resizing.startY);
+            resizing.duration = Math.max(this.intervalMinutes, Math.round(height / resizing.pixelsPerMinute / this.intervalMinutes) * this.intervalMinutes);
+            element.style.height = `${resizing.duration * resizing.pixelsPerMinute}px`;
+            resizeHandle.setAttribute('data-duration', TimeParser.formatDuration(resizing.duration));
+        });
+
+        const finish = (e: PointerEvent, commit: boolean) => {
+            if (!resizing || resizing.pointerId !== e.pointerId) return;
+            const { duration, startHeight } = resizing;
+            resizing = null;
+            element.classList.remove('resizing');
+            resizeHandle.removeAttribute('data-duration');
+            if (!commit || duration === (taskData.duration ?? 0)) {
+                element.style.height = `${startHeight}px`;
+                return;
+            }
+
             // 生成新的任务行
-            if (taskData.startTime) {
-                const newLine = this.generateUpdatedTaskLine(newTaskData, taskData.startTime);
-                if (this.onTaskUpdate) {
-                    this.onTaskUpdate(taskData.originalLine, newLine);
-                }
+            const newLine = this.generateUpdatedTaskLine({ ...taskData, duration }, startTime);
+            if (this.onTaskUpdate) {
+                this.onTaskUpdate(taskData.originalLine, newLine, { fromDate: taskData.date, lineIndex: taskData.lineIndex });
             }
         };
+        resizeHandle.addEventListener('pointerup', (e) => finish(e, true));
+        resizeHandle.addEventListener('pointercancel', (e) => finish(e, false));
     }
 
     /**
-     * 从宽度计算持续时间
+     * 每分钟对应的像素：时间槽的实际高度除以间隔
      */
-    private calculateDurationFromWidth(element: HTMLElement): number {
-        // 这是一个简化的计算，实际实现可能需要更复杂的逻辑
-        const width = element.offsetWidth;
-        const minWidth = 50; // 最小宽度对应的时间间隔
-        const widthPerInterval = 60; // 每个间隔的像素宽度（可调整）
-        
-        const intervals = Math.max(1, Math.round((width - minWidth) / widthPerInterval) + 1);
-        return intervals * this.intervalMinutes;
+    private getPixelsPerMinute(): number {
+        const slot = this.container.querySelector<HTMLElement>('.timeline-slot[data-time]');
+        const height = slot?.getBoundingClientRect().height || 60;
+        return height / this.intervalMinutes;
     }
-}
\ No newline at end of file
+}
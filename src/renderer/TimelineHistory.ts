@@ -0,0 +1,149 @@
+import type { TimelineLineRef } from '../utils/TimelineBlocks';
+import type { TimelineTaskMove } from './TimelineRenderer';
+
+/**
+ * 一次时间轴修改
+ * - block：替换笔记中 timeline 代码块的一行，ref 为写入的位置
+ * - source：替换查询模式下任务所在笔记的一行
+ * - move：把任务移到另一天的笔记
+ */
+export type TimelineEdit =
+    | { type: 'block'; path: string; ref?: TimelineLineRef; oldLine: string; newLine: string }
+    | { type: 'source'; path: string; lineNumber: number; oldLine: string; newLine: string }
+    | { type: 'move'; move: TimelineTaskMove };
+
+interface HistoryStack {
+    undo: TimelineEdit[];
+    redo: TimelineEdit[];
+}
+
+/**
+ * 撤销或重做的结果
+ */
+export interface TimelineHistoryResult {
+    edit: TimelineEdit;
+    applied: boolean;
+}
+
+/**
+ * 时间轴的撤销/重做记录
+ *
+ * 按时间轴分别记录（代码块按所在笔记，时间轴视图单独一组），保存在插件中，代码块重新渲染后仍然可以撤销。
+ * 撤销时写入的是反向修改。写入失败（例如行已被手动修改）时丢弃这条记录，否则之后的撤销都会卡在这里。
+ */
+export class TimelineHistory {
+    private stacks: Map<string, HistoryStack> = new Map();
+    private limit: number;
+
+    constructor(limit = 100) {
+        this.limit = limit;
+    }
+
+    /**
+     * 记录一次已经写入的修改，清空重做记录
+     */
+    record(key: string, edit: TimelineEdit): void {
+        const stack = this.getStack(key);
+        stack.undo.push(edit);
+        if (stack.undo.length > this.limit) stack.undo.shift();
+        stack.redo = [];
+    }
+
+    canUndo(key: string): boolean {
+        return (this.stacks.get(key)?.undo.length ?? 0) > 0;
+    }
+
+    canRedo(key: string): boolean {
+        return (this.stacks.get(key)?.redo.length ?? 0) > 0;
+    }
+
+    /**
+     * 撤销最近一次修改，apply 写入反向修改并返回是否成功
+     * @returns 没有可撤销的记录时返回 null
+     */
+    async undo(key: string, apply: (edit: TimelineEdit) => Promise<boolean>): Promise<TimelineHistoryResult | null> {
+        const stack = this.stacks.get(key);
+        const edit = stack?.undo.pop();
+        if (!stack || !edit) return null;
+        const applied = await apply(TimelineHistory.invert(edit));
+        if (applied) stack.redo.push(edit);
+        return { edit, applied };
+    }
+
+    /**
+     * 重做最近一次撤销的修改
+     */
+    async redo(key: string, apply: (edit: TimelineEdit) => Promise<boolean>): Promise<TimelineHistoryResult | null> {
+        const stack = this.stacks.get(key);
+        const edit = stack?.redo.pop();
+        if (!stack || !edit) return null;
+        const applied = await apply(edit);
+        if (applied) stack.undo.push(edit);
+        return { edit, applied };
+    }
+
+    /**
+     * 笔记重命名后更新记录中的路径
+     */
+    rename(oldPath: string, newPath: string): void {
+        const stack = this.stacks.get(oldPath);
+        if (stack) {
+            this.stacks.delete(oldPath);
+            this.stacks.set(newPath, stack);
+        }
+        const replace = (path: string) => path === oldPath ? newPath : path;
+        for (const { undo, redo } of this.stacks.values()) {
+            for (const edit of undo.concat(redo)) {
+                if (edit.type === 'move') {
+                    edit.move.fromPath = replace(edit.move.fromPath);
+                    edit.move.toPath = replace(edit.move.toPath);
+                } else {
+                    edit.path = replace(edit.path);
+                }
+            }
+        }
+    }
+
+    /**
+     * 反向修改：新旧行互换，移动则移回原来的日期
+     */
+    static invert(edit: TimelineEdit): TimelineEdit {
+        switch (edit.type) {
+            case 'block':
+            case 'source':
+                return { ...edit, oldLine: edit.newLine, newLine: edit.oldLine };
+            case 'move': {
+                const { move } = edit;
+                return {
+                    type: 'move',
+                    move: {
+                        oldLine: move.newLine,
+                        newLine: move.oldLine,
+                        fromDate: move.toDate,
+                        fromPath: move.toPath,
+                        toDate: move.fromDate,
+                        toPath: move.fromPath,
+                    },
+                };
+            }
+        }
+    }
+
+    /**
+     * 修改的简短描述，用于提示
+     */
+    static describe(edit: TimelineEdit): string {
+        const line = edit.type === 'move' ? edit.move.oldLine : edit.oldLine;
+        const name = line.replace(/^\s*-\s*\[.\]\s*/, '').replace(/\s+(?:@|#|📔).*$/u, '').trim();
+        return edit.type === 'move' ? `移动「${name}」` : `修改「${name}」`;
+    }
+
+    private getStack(key: string): HistoryStack {
+        let stack = this.stacks.get(key);
+        if (!stack) {
+            stack = { undo: [], redo: [] };
+            this.stacks.set(key, stack);
+        }
+        return stack;
+    }
+}
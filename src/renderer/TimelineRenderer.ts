@@ -1,8 +1,13 @@
-import { MarkdownRenderChild, App } from 'obsidian';
+import { MarkdownRenderChild, App, debounce } from 'obsidian';
 import { TimeParser } from '../utils/TimeParser';
-import { TimelineDragHandler, DragEventData } from './TimelineDragHandler';
+import { TimelineDragHandler, DragEventData, DropTarget } from './TimelineDragHandler';
 import { TaskEditModal, TaskEditData } from '../modal/TaskEditModal';
-import { Task } from '../modal/Task';
+import { Task, TaskStatus } from '../modal/Task';
+import { TaskFormatter } from '../modal/TaskFormatter';
+import { TaskOccurrence, TaskQuery, TaskRecord } from '../tasks/TaskIndex';
+import { DailyNotes } from '../utils/DailyNotes';
+import { TimelineBlockHeader } from './TimelineBlockHeader';
+import { TimelineBlocks, TimelineLineRef } from '../utils/TimelineBlocks';
 
 /**
  * 解析后的任务信息
@@ -10,18 +15,91 @@ import { Task } from '../modal/Task';
 interface ParsedTask {
     name: string;
     completed: boolean;
+    status: TaskStatus;
     startTime?: Date;
     endTime?: Date;
     duration?: number;
     dueTime?: Date;
     originalLine: string;
+    lineIndex?: number; // 在时间轴内容中的行号，查询到的任务没有
     id: string; // 唯一标识符
+    date?: string; // 周布局中任务所在的日期
+    source?: TimelineTaskSource; // 查询到的任务所在的笔记和行
+    projected?: boolean; // 重复任务的后续日期，只显示不能修改
 }
 
 /**
- * 时间轴布局选项
+ * 查询模式下任务在笔记中的位置
  */
-export type TimelineLayout = 'vertical';
+export interface TimelineTaskSource {
+    path: string;
+    lineNumber: number;
+}
+
+/**
+ * 查询到的任务被修改，需要写回所在的笔记
+ */
+export interface TimelineSourceUpdate extends TimelineTaskSource {
+    oldLine: string;
+    newLine: string;
+}
+
+/**
+ * 时间轴从任务索引读取任务
+ */
+export interface TimelineTaskProvider {
+    lookupTask(id: string): TaskRecord[];
+    queryTasks(query: TaskQuery): TaskRecord[];
+    // 重复任务在日期范围内的后续日期
+    queryOccurrences(from: string, to: string): TaskOccurrence[];
+    // 索引变化时通知，返回取消监听的函数
+    onTasksChanged(listener: () => void): () => void;
+}
+
+/**
+ * 时间轴布局选项：竖向单日，或按天分列的一周
+ */
+export type TimelineLayout = 'vertical' | 'week';
+
+/**
+ * 周布局中一天的数据
+ */
+export interface TimelineDay {
+    date: string;
+    label: string;
+    // 当天笔记中 timeline 代码块的内容
+    content: string;
+    sourcePath: string;
+}
+
+/**
+ * 周布局中把任务拖到另一天
+ */
+export interface TimelineTaskMove {
+    oldLine: string;
+    newLine: string;
+    fromDate: string;
+    fromPath: string;
+    toDate: string;
+    toPath: string;
+    // 任务在原来那天 timeline 内容中的行号，以及对应的代码块位置（由视图换算）
+    fromLine?: number;
+    fromRef?: TimelineLineRef;
+}
+
+/**
+ * 代码块或某一天的 timeline 内容中的一行被修改
+ */
+export interface TimelineContentUpdate {
+    oldContent: string;
+    newContent: string;
+    oldLine: string;
+    newLine: string;
+    // 修改的行在内容中的行号
+    line?: number;
+    // 周布局中修改的那天的笔记
+    sourcePath?: string;
+}
 
 /**
  * 时间轴渲染选项
@@ -32,39 +110,108 @@ export interface TimelineOptions {
     showTimeSlots: boolean;
     enableDragging: boolean;
     dynamicTimeSlots: boolean; // 是否启用动态时间段（隐藏空白时间）
+    weekDays: 5 | 7; // 周布局显示的天数
+    readOnly: boolean; // 只读时不能拖拽、勾选和编辑
+    startHour?: number; // 固定显示的时间范围，未设置时根据任务计算
+    endHour?: number;
+    date?: string; // 时间轴对应的日期，任务时刻落在这一天，默认今天
+    statuses?: TaskStatus[]; // 显示的任务状态，未设置时全部显示
+    query?: TaskQuery; // 从任务索引查询任务，与代码块中的任务一起显示
+    showRecurring: boolean; // 显示重复任务的后续日期
 }
 
 export class TimelineRenderer extends MarkdownRenderChild {
     private app: App;
+    // 全局设置，代码块头部的选项在此基础上覆盖
+    private globalOptions: TimelineOptions;
     private options: TimelineOptions;
     private dragHandler?: TimelineDragHandler;
     private currentContent?: string;
+    private currentDays?: TimelineDay[];
     private updateTimer?: number;
     private currentTimeIndicator?: HTMLElement;
+    // 上次渲染生成的时间槽，定时更新当前时间指示器时使用
+    private renderedTimeSlots: Date[] = [];
+    // 从任务索引查找同一 OmniFocus 任务在笔记中的记录
+    private tasks?: TimelineTaskProvider;
+    // 查询到的任务行对应的笔记位置
+    private taskSources: Map<string, TimelineTaskSource> = new Map();
+    private unsubscribeTasks?: () => void;
+    // 上次渲染的重复任务后续日期，索引变化但结果不变时不重新渲染
+    private occurrenceKey = '';
+    // 索引连续变化（例如启动时建立索引）时只重新渲染一次
+    private scheduleQueryRefresh = debounce(() => {
+        if (this.currentDays) {
+            if (this.getOccurrenceKey() !== this.occurrenceKey) this.renderWeek(this.currentDays);
+        } else if (this.currentContent !== undefined) {
+            if (this.options.query || this.getOccurrenceKey() !== this.occurrenceKey) this.render(this.currentContent);
+        }
+    }, 500, true);
 
-    constructor(container: HTMLElement, app: App, options?: Partial<TimelineOptions>) {
+    constructor(container: HTMLElement, app: App, options?: Partial<TimelineOptions>, tasks?: TimelineTaskProvider) {
         super(container);
         this.app = app;
+        this.tasks = tasks;
         this.options = {
             layout: 'vertical',
             intervalMinutes: 60,
             showTimeSlots: true,
             enableDragging: false,
             dynamicTimeSlots: true, // 默认启用动态时间段
+            weekDays: 7,
+            readOnly: false,
+            showRecurring: false,
             ...options
         };
+        this.globalOptions = this.options;
+
+        // 点击时间轴后获得焦点，Ctrl/Cmd+Z 撤销，Ctrl/Cmd+Shift+Z 或 Ctrl+Y 重做，由宿主处理
+        container.tabIndex = -1;
+        this.registerDomEvent(container, 'keydown', (event: KeyboardEvent) => {
+            if (!(event.ctrlKey || event.metaKey) || event.altKey) return;
+            const key = event.key.toLowerCase();
+            let type: string | null = null;
+            if (key === 'z') type = event.shiftKey ? 'timeline-redo' : 'timeline-undo';
+            else if (key === 'y' && !event.shiftKey) type = 'timeline-redo';
+            if (!type) return;
+            event.preventDefault();
+            event.stopPropagation();
+            container.dispatchEvent(new CustomEvent(type));
+        });
     }
 
     /**
      * 更新选项并重新渲染
      */
     updateOptions(newOptions: Partial<TimelineOptions>): void {
-        this.options = { ...this.options, ...newOptions };
-        if (this.currentContent) {
+        this.globalOptions = { ...this.globalOptions, ...newOptions };
+        this.options = this.globalOptions;
+        if (this.currentDays) {
+            this.renderWeek(this.currentDays);
+        } else if (this.currentContent) {
             this.render(this.currentContent);
         }
     }
 
+    /**
+     * 滚动到正在进行的任务，没有时滚动到下一个任务，并短暂高亮
+     * @returns 没有正在进行或即将开始的任务时返回 false
+     */
+    scrollToCurrentTask(): boolean {
+        // 优先未完成的任务
+        const taskEl = ['.pending.time-current', '.pending.time-upcoming', '.time-current']
+            .map(selector => this.containerEl.querySelector<HTMLElement>(`.timeline-task-vertical-whole${selector}`))
+            .find(el => el !== null);
+        if (!taskEl) return false;
+        taskEl.scrollIntoView({ behavior: 'smooth', block: 'center' });
+        taskEl.removeClass('is-highlighted');
+        // 重新触发高亮动画
+        void taskEl.offsetWidth;
+        taskEl.addClass('is-highlighted');
+        window.setTimeout(() => taskEl.removeClass('is-highlighted'), 1600);
+        return true;
+    }
+
     /**
      * 渲染时间轴
      * @param content timeline代码块的内容
@@ -73,19 +220,39 @@ export class TimelineRenderer extends MarkdownRenderChild {
         try {
             // 保存当前内容以便重新渲染
             this.currentContent = content;
+            this.currentDays = undefined;
+            this.cachedSlotOffsets = null;
+            this.taskSources.clear();
             
             // 清空容器
             this.containerEl.empty();
-
-            // 解析内容中的任务
-            const tasks = this.parseTasksFromContent(content);
+            this.renderedTimeSlots = [];
+
+            // 代码块头部的选项覆盖全局设置
+            const header = TimelineBlockHeader.parse(content);
+            this.options = { ...this.globalOptions, ...header.options };
+            const body = content.split('\n').slice(header.lineCount).join('\n');
+
+            // 解析内容中的任务，查询模式下加上索引中的任务；行号从代码块第一行算起
+            const inlineTasks = this.parseTasksFromContent(body, header.lineCount);
+            const listed = this.options.query
+                ? inlineTasks.concat(this.queryTasks(this.options.query, inlineTasks))
+                : inlineTasks;
+            const date = this.options.date ?? DailyNotes.formatDate(new Date());
+            const tasks = this.filterTasks(listed.concat(this.recurringTasks(date, date, listed)));
             
             // 按时间排序任务
             const sortedTasks = this.sortTasksByTime(tasks);
 
             // 创建时间轴容器
+            // 单日内容总是使用竖向布局，周布局见 renderWeek
             const timelineContainer = this.containerEl.createDiv('timeline-container');
-            timelineContainer.addClass(`timeline-${this.options.layout}`);
+            timelineContainer.addClass('timeline-vertical');
+            if (this.options.readOnly) timelineContainer.addClass('is-readonly');
+
+            if (header.errors.length > 0) {
+                timelineContainer.createDiv('timeline-header-error').setText(header.errors.join('；'));
+            }
             
             if (sortedTasks.length === 0) {
                 timelineContainer.createDiv('timeline-empty').setText('没有找到任务');
@@ -97,27 +264,7 @@ export class TimelineRenderer extends MarkdownRenderChild {
             await this.createVerticalTimeline(timelineContainer, sortedTasks);
             
             // 初始化拖拽功能
-            // 初始化或复用拖拽功能（避免重复 new + 重复注册事件）
-            if (this.options.enableDragging) {
-                if (!this.dragHandler) {
-                    this.dragHandler = new TimelineDragHandler(
-                        timelineContainer,
-                        this.options.intervalMinutes,
-                        (oldLine, newLine) => this.handleTaskUpdate(oldLine, newLine)
-                    );
-                } else {
-                    // 复用已有 handler，更新容器引用和间隔设置
-                    this.dragHandler.setContainer(timelineContainer);
-                    this.dragHandler.setIntervalMinutes(this.options.intervalMinutes);
-                }
-                // idempotent：只会在未初始化的元素上绑定事件
-                this.dragHandler.setupDropZones();
-            } else {
-                // 未启用拖拽时，若已有 handler 可做简单清理
-                if (this.dragHandler) {
-                    this.dragHandler.dispose();
-                }
-            }
+            this.setupDragging(timelineContainer);
             
             // 确保容器有正确的类名
             this.containerEl.addClass('timeline-renderer');
@@ -128,14 +275,131 @@ export class TimelineRenderer extends MarkdownRenderChild {
         }
     }
 
+    /**
+     * 渲染周布局：每天一列，共用同一组时间槽
+     * @param days 按日期排列的每日内容
+     */
+    async renderWeek(days: TimelineDay[]): Promise<void> {
+        try {
+            this.currentDays = days;
+            this.currentContent = undefined;
+            this.options = this.globalOptions;
+            this.containerEl.empty();
+            this.renderedTimeSlots = [];
+            this.containerEl.addClass('timeline-renderer');
+
+            const timelineContainer = this.containerEl.createDiv('timeline-container');
+            timelineContainer.addClass('timeline-week');
+
+            const occurrences = days.length > 0 ? this.recurringTasks(days[0].date, days[days.length - 1].date, []) : [];
+            const columns = days.map(day => {
+                const listed = this.parseTasksFromContent(day.content);
+                const projected = occurrences.filter(task => task.date === day.date
+                    && !listed.some(item => item.name === task.name));
+                return {
+                    day,
+                    tasks: this.sortTasksByTime(this.filterTasks(listed.concat(projected)))
+                        .map(task => ({ ...task, date: day.date })),
+                };
+            });
+            const tasksWithTime = columns.flatMap(column => column.tasks.filter(task => task.startTime || task.dueTime));
+            // 所有天的任务时间都解析到同一天，可以共用时间槽
+            const timeSlots = this.generateTimeSlots(tasksWithTime);
+            this.renderedTimeSlots = timeSlots;
+            const slotHeight = 60;
+            // 周布局的时间槽高度固定，不需要测量 DOM
+            this.cachedSlotOffsets = timeSlots.map((_, i) => i * slotHeight);
+
+            const header = timelineContainer.createDiv('timeline-week-header');
+            header.createDiv('timeline-week-scale');
+            const today = DailyNotes.formatDate(new Date());
+            for (const { day } of columns) {
+                const label = header.createDiv('timeline-week-day-label');
+                label.setText(day.label);
+                if (day.date === today) label.addClass('is-today');
+            }
+
+            const body = timelineContainer.createDiv('timeline-week-body');
+            const scale = body.createDiv('timeline-week-scale');
+            for (const slot of timeSlots) {
+                scale.createDiv('timeline-week-time-label').setText(TimeParser.formatTime(slot));
+            }
+
+            for (const { day, tasks } of columns) {
+                const column = body.createDiv('timeline-week-column');
+                column.setAttribute('data-date', day.date);
+                if (day.date === today) column.addClass('is-today');
+
+                const grid = column.createDiv('timeline-week-grid');
+                grid.style.height = `${timeSlots.length * slotHeight}px`;
+                for (const slot of timeSlots) {
+                    const slotDiv = grid.createDiv('timeline-slot timeline-week-slot');
+                    slotDiv.setAttribute('data-time', slot.toISOString());
+                    slotDiv.setAttribute('data-date', day.date);
+                }
+                if (day.date === today) {
+                    this.addCurrentTimeIndicator(grid, timeSlots);
+                }
+
+                const overlay = grid.createDiv('timeline-tasks-overlay');
+                const dayTasksWithTime = tasks.filter(task => task.startTime || task.dueTime);
+                for (const taskInfo of this.calculateOverlapLayout(dayTasksWithTime)) {
+                    const taskElement = this.createVerticalTaskWhole(overlay, taskInfo.task, timeSlots, taskInfo.offset, taskInfo.width, taskInfo.groupSize);
+                    if (!taskElement) continue;
+                    // 列宽随面板变化，使用百分比定位
+                    taskElement.style.left = `${taskInfo.offset}%`;
+                    taskElement.style.width = `${taskInfo.width}%`;
+                }
+
+                const tasksWithoutTime = tasks.filter(task => !task.startTime && !task.dueTime);
+                if (tasksWithoutTime.length > 0) {
+                    const noTimeSection = column.createDiv('timeline-no-time-section');
+                    for (const task of tasksWithoutTime) {
+                        this.createNoTimeTask(noTimeSection, task);
+                    }
+                }
+            }
+
+            this.setupDragging(timelineContainer);
+        } catch (error) {
+            console.error('Timeline render error:', error);
+            this.containerEl.createDiv('timeline-error').setText(`渲染错误: ${error.message}`);
+        }
+    }
+
+    /**
+     * 初始化或复用拖拽功能（避免重复 new + 重复注册事件）
+     */
+    private setupDragging(timelineContainer: HTMLElement): void {
+        if (this.options.enableDragging && !this.options.readOnly) {
+            if (!this.dragHandler) {
+                this.dragHandler = new TimelineDragHandler(
+                    timelineContainer,
+                    this.options.intervalMinutes,
+                    (oldLine, newLine, target) => this.handleTaskUpdate(oldLine, newLine, target)
+                );
+            } else {
+                // 复用已有 handler，更新容器引用和间隔设置
+                this.dragHandler.setContainer(timelineContainer);
+                this.dragHandler.setIntervalMinutes(this.options.intervalMinutes);
+            }
+        } else {
+            // 未启用拖拽时，若已有 handler 可做简单清理
+            if (this.dragHandler) {
+                this.dragHandler.dispose();
+            }
+        }
+    }
+
     /**
      * 从内容中解析任务
+     * @param lineOffset content 第一行在时间轴内容中的行号
      */
-    private parseTasksFromContent(content: string): ParsedTask[] {
+    private parseTasksFromContent(content: string, lineOffset = 0): ParsedTask[] {
         const lines = content.split('\n');
         const tasks: ParsedTask[] = [];
 
-        for (const line of lines) {
+        for (const [index, line] of lines.entries()) {
             const trimmedLine = line.trim();
             if (!trimmedLine || trimmedLine.startsWith('//') || trimmedLine.startsWith('#')) {
                 continue; // 跳过空行和注释
@@ -161,7 +425,7 @@ export class TimelineRenderer extends MarkdownRenderChild {
                 let dueTime: Date | undefined;
 
                 for (const timeStr of timeMatches) {
-                    const timeInfo = TimeParser.parseTaskTime(timeStr.trim());
+                    const timeInfo = TimeParser.parseTaskTime(timeStr.trim(), this.getReferenceDate());
                     if (timeInfo) {
                         if (timeInfo.startTime) startTime = timeInfo.startTime;
                         if (timeInfo.endTime) endTime = timeInfo.endTime;
@@ -170,15 +434,24 @@ export class TimelineRenderer extends MarkdownRenderChild {
                     }
                 }
                 
+                // 任务列表中已勾选或丢弃的任务，在时间轴上也显示为完成
+                const taskId = TaskFormatter.extractTaskId(trimmedLine);
+                const indexed = taskId ? this.tasks?.lookupTask(taskId) ?? [] : [];
+                const doneElsewhere = indexed.length > 0 && indexed.every(record => record.status !== 'ongoing');
+                const dropped = indexed.length > 0 && indexed.every(record => record.status === 'dropped');
+
                 tasks.push({
-                    name: taskName.trim(),
-                    completed: completed === 'x',
+                    // 名称不包括之后的旗标、标签、[字段::] 和 #of-id，编辑时只替换这一部分
+                    name: TaskFormatter.splitTimelineLine(trimmedLine)?.name || taskName.trim(),
+                    completed: completed === 'x' || doneElsewhere,
+                    status: dropped ? 'dropped' : completed === 'x' || doneElsewhere ? 'completed' : 'ongoing',
                     startTime,
                     endTime,
                     duration,
                     dueTime,
                     originalLine: trimmedLine,
-                    id: trimmedLine.match(/#([a-zA-Z0-9]+)/)?.[1] || `task-${tasks.length}-${Date.now()}`
+                    lineIndex: index + lineOffset,
+                    id: taskId || `task-${tasks.length}-${Date.now()}`
                 });
             }
         }
@@ -186,6 +459,128 @@ export class TimelineRenderer extends MarkdownRenderChild {
         return tasks;
     }
 
+    /**
+     * 从任务索引查询任务，跳过代码块中已经写出的任务
+     */
+    private queryTasks(query: TaskQuery, inlineTasks: ParsedTask[]): ParsedTask[] {
+        if (!this.tasks) return [];
+        this.subscribeTasks();
+
+        const inlineIds = new Set(inlineTasks.map(task => task.id));
+        const result: ParsedTask[] = [];
+        for (const record of this.tasks.queryTasks(query)) {
+            if (!record.task || (record.id && inlineIds.has(record.id))) continue;
+            const task = this.parseTaskRecord(record);
+            this.taskSources.set(task.originalLine, { path: record.path, lineNumber: record.lineNumber });
+            result.push(task);
+        }
+        return result;
+    }
+
+    /**
+     * 重复任务在日期范围内的后续日期，已经列出的同名任务不再重复显示
+     */
+    private recurringTasks(from: string, to: string, listed: ParsedTask[]): ParsedTask[] {
+        this.occurrenceKey = '';
+        if (!this.tasks || !this.options.showRecurring) return [];
+        this.subscribeTasks();
+        const occurrences = this.tasks.queryOccurrences(from, to);
+        this.occurrenceKey = this.formatOccurrenceKey(occurrences);
+        return occurrences
+            .filter(occurrence => !listed.some(task => task.name === occurrence.record.task?.name))
+            .map(occurrence => ({
+                ...this.parseTaskRecord(occurrence.record),
+                completed: false,
+                status: 'ongoing' as TaskStatus,
+                id: `${occurrence.record.id ?? `${occurrence.record.path}:${occurrence.record.lineNumber}`}@${occurrence.date}`,
+                date: occurrence.date,
+                source: undefined,
+                projected: true,
+            }));
+    }
+
+    private getOccurrenceKey(): string {
+        if (!this.tasks || !this.options.showRecurring) return '';
+        const dates = this.currentDays
+            ? [this.currentDays[0]?.date, this.currentDays[this.currentDays.length - 1]?.date]
+            : [this.options.date ?? DailyNotes.formatDate(new Date())];
+        if (!dates[0]) return '';
+        return this.formatOccurrenceKey(this.tasks.queryOccurrences(dates[0], dates[dates.length - 1]));
+    }
+
+    private formatOccurrenceKey(occurrences: TaskOccurrence[]): string {
+        return occurrences.map(({ record, date }) => `${date} ${record.path}:${record.lineNumber} ${record.line}`).join('\n');
+    }
+
+    /**
+     * 监听任务索引，查询结果或重复任务变化时重新渲染
+     */
+    private subscribeTasks(): void {
+        if (!this.tasks || this.unsubscribeTasks) return;
+        this.unsubscribeTasks = this.tasks.onTasksChanged(() => this.scheduleQueryRefresh());
+        this.register(() => {
+            this.unsubscribeTasks?.();
+            this.scheduleQueryRefresh.cancel();
+        });
+    }
+
+    /**
+     * 把索引中的任务转换为时间轴任务：@ 标记或 start 字段为开始时间，只有截止日期时取截止日期中的时间
+     */
+    private parseTaskRecord(record: TaskRecord): ParsedTask {
+        const task = record.task as Task;
+        const referenceDate = this.getReferenceDate();
+        const startTime = task.startTime ? TimeParser.parseTime(task.startTime, referenceDate) ?? undefined : undefined;
+        let dueTime = task.dueTime ? TimeParser.parseTime(task.dueTime, referenceDate) ?? undefined : undefined;
+        if (!startTime && !dueTime && task.dueDate) {
+            const due = new Date(task.dueDate);
+            // 只有日期的截止时间在零点，不算有时间
+            if (!isNaN(due.getTime()) && (due.getHours() > 0 || due.getMinutes() > 0)) {
+                dueTime = TimeParser.parseTime(TimeParser.formatTime(due), referenceDate) ?? undefined;
+            }
+        }
+
+        // @开始-结束 解析为开始时间和截止时间，作为时间段显示
+        let endTime: Date | undefined;
+        let duration = task.duration ?? task.estimatedMinutes ?? undefined;
+        if (startTime && dueTime && dueTime > startTime) {
+            endTime = dueTime;
+            dueTime = undefined;
+            duration = duration ?? Math.round((endTime.getTime() - startTime.getTime()) / 60000);
+        } else if (startTime && duration) {
+            endTime = new Date(startTime.getTime() + duration * 60 * 1000);
+        }
+
+        return {
+            name: task.name,
+            completed: record.status !== 'ongoing',
+            status: record.status,
+            startTime,
+            endTime,
+            duration,
+            dueTime,
+            originalLine: record.line.trim(),
+            id: record.id ?? `${record.path}:${record.lineNumber}`,
+            source: { path: record.path, lineNumber: record.lineNumber },
+        };
+    }
+
+    /**
+     * 按代码块头部的状态和时间范围筛选任务，没有时间的任务不受时间范围限制
+     */
+    private filterTasks(tasks: ParsedTask[]): ParsedTask[] {
+        const { statuses, startHour, endHour } = this.options;
+        return tasks.filter(task => {
+            if (statuses && !statuses.includes(task.status)) return false;
+            const time = task.startTime || task.dueTime;
+            if (!time) return true;
+            const hour = time.getHours() + time.getMinutes() / 60;
+            if (startHour !== undefined && hour < startHour) return false;
+            if (endHour !== undefined && hour >= endHour) return false;
+            return true;
+        });
+    }
+
     /**
      * 按时间排序任务
      */
@@ -218,10 +613,8 @@ export class TimelineRenderer extends MarkdownRenderChild {
         const tasksWithoutTime = tasks.filter(task => !task.startTime && !task.dueTime);
         
         if (tasksWithTime.length > 0) {
-            // 根据配置选择时间段生成策略
-            const timeSlots = this.options.dynamicTimeSlots 
-                ? this.generateDynamicTimeSlots(tasksWithTime)
-                : this.generateTraditionalTimeSlots(tasksWithTime);
+            const timeSlots = this.generateTimeSlots(tasksWithTime);
+            this.renderedTimeSlots = timeSlots;
             if (timeSlots.length > 0) {
                 // 创建时间槽结构
                 const timelineGrid = timeline.createDiv('timeline-grid');
@@ -239,7 +632,7 @@ export class TimelineRenderer extends MarkdownRenderChild {
                     slotDiv.createDiv('timeline-slot-tasks');
                 }
                 
-                // 添加当前时间指示器
+                // 添加当前时间指示器，时间轴是其他日期时不在显示范围内
                 this.addCurrentTimeIndicator(timelineGrid, timeSlots);
                 
                 // 创建任务覆盖层，让任务可以跨越时间槽
@@ -317,7 +710,7 @@ export class TimelineRenderer extends MarkdownRenderChild {
         offsetPercentage = 0, 
         widthPercentage = 100,
         groupSize = 1
-    ): void {
+    ): HTMLElement | undefined {
         const taskStartTime = task.startTime || task.dueTime;
         if (!taskStartTime) return;
         
@@ -371,18 +764,20 @@ export class TimelineRenderer extends MarkdownRenderChild {
         const taskDot = taskElement.createDiv('timeline-task-dot');
         
         // 为所有任务添加点击切换完成状态功能
-        taskDot.addClass('clickable-toggle');
-        taskDot.addEventListener('click', (event) => {
-            event.preventDefault();
-            event.stopPropagation();
-            this.toggleTaskCompletion(task);
-        });
-        
-        // 根据任务状态设置不同的提示文本
-        if (task.completed) {
-            taskDot.title = '点击标记为未完成';
-        } else {
-            taskDot.title = '点击标记为完成';
+        if (this.isEditable(task)) {
+            taskDot.addClass('clickable-toggle');
+            taskDot.addEventListener('click', (event) => {
+                event.preventDefault();
+                event.stopPropagation();
+                this.toggleTaskCompletion(task);
+            });
+            
+            // 根据任务状态设置不同的提示文本
+            if (task.completed) {
+                taskDot.title = '点击标记为未完成';
+            } else {
+                taskDot.title = '点击标记为完成';
+            }
         }
         
         // 创建任务内容
@@ -432,10 +827,19 @@ export class TimelineRenderer extends MarkdownRenderChild {
         // 添加时间状态样式
         const taskTime = task.startTime || task.dueTime;
         if (taskTime) {
-            const timeStatus = TimeParser.getTimeStatus(taskTime);
+            const timeStatus = this.getTimeStatus(taskTime, task.date);
             taskElement.addClass(`time-${timeStatus}`);
         }
         
+        // 只读时不能拖拽和编辑
+        if (!this.isEditable(task)) {
+            if (task.projected) {
+                taskElement.addClass('is-projected');
+                taskElement.title = '重复任务的后续日期';
+            }
+            return taskElement;
+        }
+
         // 添加拖拽功能
         if (this.options.enableDragging) {
             this.addDragFunctionality(taskElement, task);
@@ -443,6 +847,23 @@ export class TimelineRenderer extends MarkdownRenderChild {
         
         // 添加点击编辑功能
         this.addTaskEditFunctionality(taskElement, task);
+        return taskElement;
+    }
+
+    /**
+     * 只读时间轴和重复任务的后续日期不能拖拽、勾选和编辑
+     */
+    private isEditable(task: ParsedTask): boolean {
+        return !this.options.readOnly && !task.projected;
+    }
+
+    /**
+     * 任务时间状态，周布局中任务属于其他日期时整天都是过去或将来
+     */
+    private getTimeStatus(time: Date, date?: string): 'upcoming' | 'current' | 'past' {
+        const today = DailyNotes.formatDate(new Date());
+        if (!date || date === today) return TimeParser.getTimeStatus(time);
+        return date < today ? 'past' : 'upcoming';
     }
 
     /**
@@ -451,6 +872,7 @@ export class TimelineRenderer extends MarkdownRenderChild {
     private createNoTimeTask(container: HTMLElement, task: ParsedTask): void {
         const taskElement = container.createDiv('timeline-task no-time');
         taskElement.addClass(task.completed ? 'completed' : 'pending');
+        if (task.projected) taskElement.addClass('is-projected');
         
         const taskContent = taskElement.createDiv('timeline-task-content');
         const taskName = taskContent.createDiv('timeline-task-name');
@@ -516,6 +938,27 @@ export class TimelineRenderer extends MarkdownRenderChild {
         return { startHour, endHour };
     }
 
+    /**
+     * 根据配置选择时间段生成策略
+     */
+    private generateTimeSlots(tasksWithTime: ParsedTask[]): Date[] {
+        if (tasksWithTime.length === 0) return [];
+        // 指定了时间范围时显示范围内的所有时间槽
+        const { startHour, endHour } = this.options;
+        if (startHour !== undefined || endHour !== undefined) {
+            const range = this.getTimeRange(tasksWithTime);
+            return TimeParser.generateTimeSlots(
+                startHour ?? range?.startHour ?? 0,
+                endHour ?? range?.endHour ?? 24,
+                this.options.intervalMinutes,
+                this.getReferenceDate()
+            );
+        }
+        return this.options.dynamicTimeSlots
+            ? this.generateDynamicTimeSlots(tasksWithTime)
+            : this.generateTraditionalTimeSlots(tasksWithTime);
+    }
+
     /**
      * 生成传统时间段（完整时间范围）
      */
@@ -526,10 +969,18 @@ export class TimelineRenderer extends MarkdownRenderChild {
         return TimeParser.generateTimeSlots(
             timeRange.startHour,
             timeRange.endHour,
-            this.options.intervalMinutes
+            this.options.intervalMinutes,
+            this.getReferenceDate()
         );
     }
 
+    /**
+     * 解析时刻和生成时间槽使用的日期，未指定时为今天
+     */
+    private getReferenceDate(): Date {
+        return (this.options.date && DailyNotes.parseDate(this.options.date)) || new Date();
+    }
+
     /**
      * 生成动态时间段，只包含有任务的时间段及其相邻时间段
      */
@@ -802,10 +1253,13 @@ export class TimelineRenderer extends MarkdownRenderChild {
             taskName: task.name,
             originalLine: task.originalLine,
             startTime: task.startTime,
-            duration: task.duration
+            duration: task.duration,
+            date: task.date,
+            lineIndex: task.lineIndex
         };
         
         this.dragHandler.addDragToTask(element, dragData);
+        this.dragHandler.addResizeToTask(element, dragData);
     }
 
 
@@ -921,7 +1375,20 @@ export class TimelineRenderer extends MarkdownRenderChild {
     /**
      * 处理任务更新
      */
-    private handleTaskUpdate(oldLine: string, newLine: string): void {
+    private handleTaskUpdate(oldLine: string, newLine: string, target: DropTarget = {}): void {
+        if (this.currentDays) {
+            this.handleWeekTaskUpdate(oldLine, newLine, target);
+            return;
+        }
+
+        // 查询到的任务写回所在的笔记，索引更新后重新渲染
+        const source = this.taskSources.get(oldLine);
+        if (source) {
+            const update: TimelineSourceUpdate = { ...source, oldLine, newLine };
+            this.containerEl.dispatchEvent(new CustomEvent('timeline-source-updated', { detail: update }));
+            return;
+        }
+
         if (!this.currentContent) {
             console.warn('No current content available');
             return;
@@ -930,8 +1397,13 @@ export class TimelineRenderer extends MarkdownRenderChild {
         // 保存原始内容
         const oldContent = this.currentContent;
         
-        // 更新内容中的任务行
-        const updatedContent = this.currentContent.replace(oldLine, newLine);
+        // 按行号更新内容中的任务行，相同的行出现多次时不会改错
+        const line = this.findContentLine(oldContent, oldLine, target.lineIndex);
+        if (line < 0) {
+            console.warn('Task line not found:', oldLine);
+            return;
+        }
+        const updatedContent = this.replaceContentLine(oldContent, line, newLine);
 
         
         // 保存更新后的内容
@@ -945,9 +1417,67 @@ export class TimelineRenderer extends MarkdownRenderChild {
         
         
         // 触发内容更新事件（如果需要保存到文件）
-        this.containerEl.dispatchEvent(new CustomEvent('timeline-content-updated', {
-            detail: { oldContent, newContent: updatedContent, oldLine, newLine }
-        }));
+        const detail: TimelineContentUpdate = { oldContent, newContent: updatedContent, oldLine, newLine, line };
+        this.containerEl.dispatchEvent(new CustomEvent('timeline-content-updated', { detail }));
+    }
+
+    /**
+     * 处理周布局中的任务更新，拖到另一天时触发 timeline-task-moved
+     */
+    private handleWeekTaskUpdate(oldLine: string, newLine: string, target: DropTarget): void {
+        const days = this.currentDays ?? [];
+        const day = days.find(item => item.date === target.fromDate)
+            ?? days.find(item => this.findContentLine(item.content, oldLine) >= 0);
+        const line = day ? this.findContentLine(day.content, oldLine, target.lineIndex) : -1;
+        if (!day || line < 0) {
+            console.warn('No day found for task:', oldLine);
+            return;
+        }
+
+        const toDay = target.toDate ? days.find(item => item.date === target.toDate) : undefined;
+        if (toDay && toDay !== day) {
+            const move: TimelineTaskMove = {
+                oldLine,
+                newLine,
+                fromDate: day.date,
+                fromPath: day.sourcePath,
+                toDate: toDay.date,
+                toPath: toDay.sourcePath,
+                fromLine: line,
+            };
+            // 先在界面上移动，文件写入后视图会重新读取
+            const lines = day.content.split('\n');
+            lines.splice(line, 1);
+            day.content = lines.join('\n');
+            toDay.content = toDay.content ? `${toDay.content}\n${newLine}` : newLine;
+            this.renderWeek(days);
+            this.containerEl.dispatchEvent(new CustomEvent('timeline-task-moved', { detail: move }));
+            return;
+        }
+
+        const oldContent = day.content;
+        day.content = this.replaceContentLine(day.content, line, newLine);
+        this.renderWeek(days);
+        const detail: TimelineContentUpdate = { oldContent, newContent: day.content, oldLine, newLine, line, sourcePath: day.sourcePath };
+        this.containerEl.dispatchEvent(new CustomEvent('timeline-content-updated', { detail }));
+    }
+
+    /**
+     * 任务行在内容中的行号：优先使用渲染时记录的行号，行号对不上时查找相同的行
+     */
+    private findContentLine(content: string, taskLine: string, lineIndex?: number): number {
+        const lines = content.split('\n');
+        if (lineIndex !== undefined && lines[lineIndex]?.trim() === taskLine) return lineIndex;
+        return lines.findIndex(line => line.trim() === taskLine);
+    }
+
+    /**
+     * 替换内容中的一行，保留缩进
+     */
+    private replaceContentLine(content: string, index: number, newLine: string): string {
+        const lines = content.split('\n');
+        lines[index] = (lines[index].match(/^\s*/)?.[0] ?? '') + newLine;
+        return lines.join('\n');
     }
 
     /**
@@ -1000,7 +1530,7 @@ export class TimelineRenderer extends MarkdownRenderChild {
         task.completed = !task.completed;
         
         // 更新内容
-        this.handleTaskUpdate(task.originalLine, newTaskLine);
+        this.handleTaskUpdate(task.originalLine, newTaskLine, { fromDate: task.date, lineIndex: task.lineIndex });
         
         // 更新任务的原始行引用
         task.originalLine = newTaskLine;
@@ -1031,23 +1561,30 @@ export class TimelineRenderer extends MarkdownRenderChild {
      * 根据编辑数据更新任务
      */
     private updateTaskFromEditData(originalTask: ParsedTask, editedData: TaskEditData): void {
-        // 构建新的任务行
-        let newTaskLine = `- [${originalTask.completed ? 'x' : ' '}] ${editedData.name}`;
-        
-        // 添加时间信息
+        // 查询到的任务只修改名称和时间，保留行中的其他信息
+        if (originalTask.source) {
+            let sourceLine = TaskFormatter.setLineName(originalTask.originalLine, editedData.name);
+            // 清空开始时间时删除时间标记，任务从时间轴上移除
+            sourceLine = editedData.startTime
+                ? TaskFormatter.setLineTime(sourceLine, TimeParser.formatTime(editedData.startTime), editedData.duration)
+                : TaskFormatter.removeLineTime(sourceLine);
+            this.handleTaskUpdate(originalTask.originalLine, sourceLine);
+            return;
+        }
+
+        // 代码块中的行只替换名称和时间标记，旗标、标签、字段和行末的 #of-id 等保持不变
+        const times: string[] = [];
         if (editedData.startTime && editedData.duration) {
-            const startTimeStr = TimeParser.formatTime(editedData.startTime);
-            newTaskLine += ` @${startTimeStr}+${this.formatDurationForTaskLine(editedData.duration)}`;
+            times.push(`@${TimeParser.formatTime(editedData.startTime)}+${this.formatDurationForTaskLine(editedData.duration)}`);
         } else if (editedData.startTime) {
-            const startTimeStr = TimeParser.formatTime(editedData.startTime);
-            newTaskLine += ` @${startTimeStr}`;
+            times.push(`@${TimeParser.formatTime(editedData.startTime)}`);
         }
-        
-        // 添加截止时间
         if (editedData.dueTime && editedData.dueTime !== editedData.startTime) {
-            const dueTimeStr = TimeParser.formatTime(editedData.dueTime);
-            newTaskLine += ` due:${dueTimeStr}`;
+            times.push(`due:${TimeParser.formatTime(editedData.dueTime)}`);
         }
+        const renamed = TaskFormatter.setLineName(originalTask.originalLine, editedData.name)
+            .replace(/^(\s*-\s*\[).(\])/, `$1${originalTask.completed ? 'x' : ' '}$2`);
+        const newTaskLine = TimelineBlocks.setTimes(renamed, times.join(' '));
         
         // 更新任务数据
         originalTask.name = editedData.name;
@@ -1061,7 +1598,7 @@ export class TimelineRenderer extends MarkdownRenderChild {
         }
         
         // 更新内容
-        this.handleTaskUpdate(originalTask.originalLine, newTaskLine);
+        this.handleTaskUpdate(originalTask.originalLine, newTaskLine, { fromDate: originalTask.date, lineIndex: originalTask.lineIndex });
         
         // 更新任务的原始行引用
         originalTask.originalLine = newTaskLine;
@@ -1202,20 +1739,13 @@ export class TimelineRenderer extends MarkdownRenderChild {
 
     /**
      * 获取当前显示的时间槽
+     * 使用上次渲染时生成的时间槽，其中已包括查询到的任务和重复任务的后续日期，不能只从代码块内容重新解析
      */
     private getCurrentTimeSlots(): Date[] {
-        // 这里需要根据当前显示的时间轴重新计算时间槽
-        // 简化实现：从当前内容重新解析任务并生成时间槽
-        if (!this.currentContent) return [];
-        
-        const tasks = this.parseTasksFromContent(this.currentContent);
-        const tasksWithTime = tasks.filter(task => task.startTime || task.dueTime);
-        
-        return this.options.dynamicTimeSlots 
-            ? this.generateDynamicTimeSlots(tasksWithTime)
-            : this.generateTraditionalTimeSlots(tasksWithTime);
+        return this.renderedTimeSlots;
     }
 
+
     /**
      * 清理定时器
      */
@@ -1224,6 +1754,7 @@ export class TimelineRenderer extends MarkdownRenderChild {
             window.clearInterval(this.updateTimer);
             this.updateTimer = undefined;
         }
+        this.dragHandler?.dispose();
         super.onunload();
     }
 }
\ No newline at end of file
@@ -0,0 +1,113 @@
+import { Task } from '../modal/Task';
+
+/**
+ * 回写到 OmniFocus 的动作，create 为快速收集的新任务
+ */
+export type OutboxAction = 'complete' | 'uncomplete' | 'drop' | 'create';
+
+/**
+ * 发件箱条目
+ */
+export interface OutboxEntry {
+	id: string;
+	// create 动作的任务还没有 OmniFocus id，使用收集时生成的 captureId
+	taskId: string;
+	action: OutboxAction;
+	// create 动作要创建的任务
+	task?: Task;
+	createdAt: string;
+	attempts: number;
+	lastSentAt?: string;
+}
+
+/**
+ * 待发送到 OmniFocus 的动作队列，持久化在插件数据中，重启后继续发送
+ */
+export class CompletionOutbox {
+	private entries: OutboxEntry[] = [];
+	private onChange: () => void;
+
+	constructor(onChange: () => void) {
+		this.onChange = onChange;
+	}
+
+	/**
+	 * 从插件数据恢复队列
+	 */
+	load(entries: OutboxEntry[] | undefined): void {
+		this.entries = Array.isArray(entries)
+			? entries.filter(entry => entry && entry.id && entry.taskId && entry.action)
+			: [];
+	}
+
+	toJSON(): OutboxEntry[] {
+		return this.entries.map(entry => ({ ...entry }));
+	}
+
+	get size(): number {
+		return this.entries.length;
+	}
+
+	pending(): OutboxEntry[] {
+		return this.toJSON();
+	}
+
+	/**
+	 * 加入一个动作。同一任务只保留最后一个动作；
+	 * 完成后又取消完成（或反之）且尚未发送时，两者相互抵消
+	 */
+	enqueue(taskId: string, action: OutboxAction, task?: Task): void {
+		const existing = this.entries.find(entry => entry.taskId === taskId);
+		if (existing) {
+			this.entries = this.entries.filter(entry => entry !== existing);
+			const cancels = existing.attempts === 0 && (
+				(existing.action === 'complete' && action === 'uncomplete') ||
+				(existing.action === 'uncomplete' && action === 'complete')
+			);
+			if (cancels) {
+				this.onChange();
+				return;
+			}
+		}
+		this.entries.push({
+			id: `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`,
+			taskId,
+			action,
+			...(task ? { task } : {}),
+			createdAt: new Date().toISOString(),
+			attempts: 0,
+		});
+		this.onChange();
+	}
+
+	/**
+	 * 记录一次发送尝试
+	 */
+	markSent(ids: string[]): void {
+		const now = new Date().toISOString();
+		for (const entry of this.entries) {
+			if (ids.includes(entry.id)) {
+				entry.attempts += 1;
+				entry.lastSentAt = now;
+			}
+		}
+		this.onChange();
+	}
+
+	/**
+	 * 确认已处理的条目并移出队列
+	 * @returns 实际移除的条目数量
+	 */
+	acknowledge(ids: string[]): number {
+		const before = this.entries.length;
+		this.entries = this.entries.filter(entry => !ids.includes(entry.id));
+		const removed = before - this.entries.length;
+		if (removed > 0) this.onChange();
+		return removed;
+	}
+
+	clear(): void {
+		this.entries = [];
+		this.onChange();
+	}
+}
@@ -0,0 +1,109 @@
+import { App, TAbstractFile, TFile } from 'obsidian';
+import { TaskStatus } from '../modal/Task';
+import { TaskFormatter } from '../modal/TaskFormatter';
+
+/**
+ * 任务 id 对应的各处出现位置的状态（任务列表、时间轴等）
+ */
+type TaskStateSnapshot = Map<string, TaskStatus[]>;
+
+/**
+ * 任务行状态变化
+ */
+export interface TaskStateChange {
+	taskId: string;
+	from: TaskStatus;
+	to: TaskStatus;
+	path: string;
+}
+
+/**
+ * 监听笔记修改，找出带有 OmniFocus id 的任务行的状态变化
+ *
+ * 只识别两种任务行：
+ * - 带有 omnifocus:///task/<id> 链接的行
+ * - timeline 代码块中以 #of-<id> 结尾的行
+ * 行末的普通标签（例如 #health）和旧版没有前缀的 #id 都不算 id，不会加入发件箱
+ */
+export class CompletionWatcher {
+	private app: App;
+	private onChange: (change: TaskStateChange) => void;
+	private snapshots: Map<string, TaskStateSnapshot> = new Map();
+
+	constructor(app: App, onChange: (change: TaskStateChange) => void) {
+		this.app = app;
+		this.onChange = onChange;
+	}
+
+	/**
+	 * 记录文件当前状态作为对比基准
+	 */
+	prime(path: string, content: string): void {
+		this.snapshots.set(path, CompletionWatcher.collectStates(content));
+	}
+
+	async primeFile(file: TFile): Promise<void> {
+		if (file.extension !== 'md' || this.snapshots.has(file.path)) return;
+		this.prime(file.path, await this.app.vault.cachedRead(file));
+	}
+
+	/**
+	 * 文件修改时与基准对比，报告状态变化并更新基准
+	 */
+	async handleModify(file: TAbstractFile): Promise<void> {
+		if (!(file instanceof TFile) || file.extension !== 'md') return;
+		const content = await this.app.vault.read(file);
+		const previous = this.snapshots.get(file.path);
+		const current = CompletionWatcher.collectStates(content);
+		this.snapshots.set(file.path, current);
+		if (!previous) return;
+
+		for (const [taskId, states] of current) {
+			const oldStates = previous.get(taskId);
+			if (!oldStates) continue;
+			const length = Math.min(oldStates.length, states.length);
+			for (let i = 0; i < length; i++) {
+				if (oldStates[i] !== states[i]) {
+					this.onChange({ taskId, from: oldStates[i], to: states[i], path: file.path });
+					break;
+				}
+			}
+		}
+	}
+
+	handleRename(file: TAbstractFile, oldPath: string): void {
+		const snapshot = this.snapshots.get(oldPath);
+		this.snapshots.delete(oldPath);
+		if (snapshot) this.snapshots.set(file.path, snapshot);
+	}
+
+	handleDelete(file: TAbstractFile): void {
+		this.snapshots.delete(file.path);
+	}
+
+	/**
+	 * 收集内容中所有带 OmniFocus id 的任务行状态
+	 */
+	static collectStates(content: string): TaskStateSnapshot {
+		const states: TaskStateSnapshot = new Map();
+		let inFence = false;
+		let inTimeline = false;
+		for (const line of content.split(/\r?\n/)) {
+			const fence = line.match(/^\s*```\s*(\S*)/);
+			if (fence) {
+				inTimeline = !inFence && fence[1] === 'timeline';
+				inFence = !inFence;
+				continue;
+			}
+			const hasLink = line.includes('omnifocus:///task/');
+			if (!hasLink && !inTimeline) continue;
+			const status = TaskFormatter.getLineStatus(line);
+			const taskId = status ? TaskFormatter.extractTaskId(line) : null;
+			if (!status || !taskId) continue;
+			const list = states.get(taskId) ?? [];
+			list.push(status);
+			states.set(taskId, list);
+		}
+		return states;
+	}
+}
@@ -0,0 +1,402 @@
+import { Task } from '../modal/Task';
+import { TaskFormatter } from '../modal/TaskFormatter';
+
+/**
+ * 插件生成的一个笔记区块，写入时包裹在 HTML 注释围栏中：
+ * <!-- gtd:begin name -->
+ * ...
+ * <!-- gtd:end name -->
+ */
+export interface DailySection {
+	name: string;
+	lines: string[];
+	// 区块内容完全由插件生成（例如统计表格），合并时整体替换
+	replace?: boolean;
+}
+
+/**
+ * 合并结果报告，记录新增、修改、移除的任务 id
+ */
+export interface MergeReport {
+	added: string[];
+	updated: string[];
+	removed: string[];
+}
+
+export interface MergeResult {
+	content: string;
+	report: MergeReport;
+}
+
+/**
+ * 区块在笔记中的位置（围栏行的行号）
+ */
+interface RegionRange {
+	start: number;
+	end: number;
+}
+
+const FENCE_REGEX = /^\s*```/;
+const HEADING_REGEX = /^#{1,6}\s/;
+const TASK_LINK = 'omnifocus:///task/';
+
+/**
+ * 旧版（整篇覆盖写入、没有围栏）笔记中插件生成的标题及其对应的区块
+ */
+const LEGACY_HEADINGS: Array<[RegExp, string]> = [
+	[/^##\s*\d{4}年\d+周目标 - \d+ 个\s*$/, 'week-goals'],
+	[/^##\s*TODO\s*$/, 'timeline'],
+	[/^###\s*今日重点 - \d+ 个\s*$/, 'today'],
+	[/^###\s*今日任务 - \d+ 个\s*$/, 'ongoing'],
+	[/^###\s*已完成任务 - \d+ 个\s*$/, 'completed'],
+	[/^###\s*已丢弃任务 - \d+ 个\s*$/, 'dropped'],
+];
+
+/**
+ * 每日笔记增量合并引擎
+ *
+ * 只修改围栏内的内容，围栏外用户写的日记、会议记录等保持不变。
+ * 围栏内按 OmniFocus id（任务链接或时间轴行末尾的 #of-id）原地更新任务行，
+ * 不带 id 的行（例如手动添加的时间轴条目，包括行末带普通标签的）会被保留。
+ */
+export class DailyNoteMerger {
+	static beginMarker(name: string): string {
+		return `<!-- gtd:begin ${name} -->`;
+	}
+
+	static endMarker(name: string): string {
+		return `<!-- gtd:end ${name} -->`;
+	}
+
+	/**
+	 * 生成全新的笔记内容
+	 */
+	static render(sections: DailySection[]): string {
+		const blocks = sections.map(section => [
+			this.beginMarker(section.name),
+			...section.lines,
+			this.endMarker(section.name),
+		].join('\n'));
+		return blocks.join('\n\n') + '\n';
+	}
+
+	/**
+	 * 将新生成的区块合并到已有笔记中
+	 * @param initialContent 笔记为空时写入的完整内容，默认只包含各区块
+	 */
+	static merge(existing: string, sections: DailySection[], initialContent?: string): MergeResult {
+		const useCRLF = existing.includes('\r\n');
+		const normalized = existing.replace(/\r\n/g, '\n');
+
+		if (!normalized.trim()) {
+			const content = initialContent ?? this.render(sections);
+			const added = Array.from(this.collectRegionIds(content.split('\n'), sections).keys());
+			return { content, report: { added, updated: [], removed: [] } };
+		}
+
+		let lines = this.convertLegacyLayout(normalized.split('\n'), sections);
+		const known = new Set(sections.flatMap(section => section.lines)
+			.map(line => TaskFormatter.extractTaskId(line))
+			.filter((id): id is string => !!id));
+		const before = this.collectRegionIds(lines, sections, known);
+
+		sections.forEach((section, index) => {
+			const region = this.findRegion(lines, section.name);
+			if (region) {
+				const body = lines.slice(region.start + 1, region.end);
+				const merged = section.replace ? section.lines : this.mergeRegionBody(body, section.lines, known);
+				lines = [...lines.slice(0, region.start + 1), ...merged, ...lines.slice(region.end)];
+				return;
+			}
+
+			const block = [this.beginMarker(section.name), ...section.lines, this.endMarker(section.name)];
+			lines = this.insertRegion(lines, block, sections, index);
+		});
+
+		const after = this.collectRegionIds(lines, sections, known);
+		const report: MergeReport = { added: [], updated: [], removed: [] };
+		for (const [id, newLines] of after) {
+			const oldLines = before.get(id);
+			if (!oldLines) {
+				report.added.push(id);
+			} else if (oldLines.join('\n') !== newLines.join('\n')) {
+				report.updated.push(id);
+			}
+		}
+		for (const id of before.keys()) {
+			if (!after.has(id)) report.removed.push(id);
+		}
+
+		const content = lines.join('\n');
+		return { content: useCRLF ? content.replace(/\n/g, '\r\n') : content, report };
+	}
+
+	/**
+	 * 删除快速收集写入的任务行（带 [capture:: id]，包括时间轴中的行），条件是同步的任务中有同一 captureId
+	 * 只按 captureId 判断，同名的其他任务不会导致收集的行被删除
+	 */
+	static removeCapturedTasks(content: string, tasks: Task[]): string {
+		const captureIds = new Set(tasks.map(task => task.captureId).filter(Boolean));
+		if (captureIds.size === 0) return content;
+		const newline = content.includes('\r\n') ? '\r\n' : '\n';
+		const lines = content.split(/\r?\n/);
+		const kept = lines.filter(line => {
+			if (!line.includes('[capture::')) return true;
+			const task = TaskFormatter.parseLineToTask(line);
+			if (!task?.captureId) return true;
+			return !captureIds.has(task.captureId);
+		});
+		return kept.length === lines.length ? content : kept.join(newline);
+	}
+
+	/**
+	 * 读取笔记中某个区块的内容（不含围栏行），区块不存在时返回 null
+	 */
+	static extractRegion(content: string, name: string): string[] | null {
+		const lines = content.split(/\r?\n/);
+		const region = this.findRegion(lines, name);
+		return region ? lines.slice(region.start + 1, region.end) : null;
+	}
+
+	/**
+	 * 更新 front matter 中的指定字段，其他字段保持不变；没有 front matter 时新建
+	 */
+	static mergeFrontMatter(content: string, entries: Array<[string, string]>): string {
+		if (entries.length === 0) return content;
+		const newline = content.includes('\r\n') ? '\r\n' : '\n';
+		const lines = content.split(/\r?\n/);
+		const end = lines[0] === '---' ? lines.indexOf('---', 1) : -1;
+		if (end < 0) {
+			return ['---', ...entries.map(([key, value]) => `${key}: ${value}`), '---', ...lines].join(newline);
+		}
+
+		const frontMatter = lines.slice(1, end);
+		for (const [key, value] of entries) {
+			const index = frontMatter.findIndex(line => line.startsWith(`${key}:`));
+			if (index >= 0) frontMatter[index] = `${key}: ${value}`;
+			else frontMatter.push(`${key}: ${value}`);
+		}
+		return ['---', ...frontMatter, ...lines.slice(end)].join(newline);
+	}
+
+	/**
+	 * 合并单个区块的内容
+	 * - 第一个标题行替换为新标题（标题中带有任务数量）
+	 * - 带 id 的行原地替换为新行，新数据中不存在的 id 被移除
+	 * - 其他行保留
+	 * - 新增任务追加到代码块末尾或区块末尾
+	 */
+	private static mergeRegionBody(oldLines: string[], newLines: string[], known: Set<string>): string[] {
+		const newHeading = newLines.find(line => HEADING_REGEX.test(line));
+		const newById = new Map<string, { line: string; inFence: boolean }>();
+		let newFenceOpen: string | undefined;
+		let newFenceClose: string | undefined;
+		let scanningFence = false;
+		for (const line of newLines) {
+			if (FENCE_REGEX.test(line)) {
+				if (scanningFence) newFenceClose = line;
+				else newFenceOpen = line;
+				scanningFence = !scanningFence;
+				continue;
+			}
+			const id = TaskFormatter.extractTaskId(line);
+			if (id && !newById.has(id)) newById.set(id, { line, inFence: scanningFence });
+		}
+
+		const used = new Set<string>();
+		const takeUnused = (inFence: boolean) => {
+			const taken: string[] = [];
+			for (const [id, entry] of newById) {
+				if (entry.inFence === inFence && !used.has(id)) {
+					used.add(id);
+					taken.push(entry.line);
+				}
+			}
+			return taken;
+		};
+
+		const result: string[] = [];
+		let headingHandled = false;
+		let inFence = false;
+		let sawFence = false;
+
+		for (const line of oldLines) {
+			if (FENCE_REGEX.test(line)) {
+				if (inFence) {
+					// 代码块结束前补上新增的代码块任务
+					result.push(...takeUnused(true));
+				} else {
+					sawFence = true;
+				}
+				inFence = !inFence;
+				result.push(line);
+				continue;
+			}
+			if (!inFence && !headingHandled && HEADING_REGEX.test(line)) {
+				headingHandled = true;
+				if (newHeading) result.push(newHeading);
+				continue;
+			}
+			const id = this.lineId(line, known);
+			if (id) {
+				const entry = newById.get(id);
+				if (entry && !used.has(id)) {
+					used.add(id);
+					result.push(entry.line);
+				}
+				continue;
+			}
+			result.push(line);
+		}
+
+		if (!headingHandled && newHeading) {
+			result.unshift(newHeading);
+		}
+
+		const fenceLines = takeUnused(true);
+		const outsideLines = takeUnused(false);
+		while (result.length > 0 && result[result.length - 1].trim() === '') result.pop();
+		if (fenceLines.length > 0 && !sawFence) {
+			result.push(newFenceOpen ?? '```timeline', ...fenceLines, newFenceClose ?? '```');
+		}
+		result.push(...outsideLines);
+		return result;
+	}
+
+	/**
+	 * 把旧版笔记中生成的内容转换为带围栏的区块，之后按 id 原地合并，不会在旧内容旁边再追加一份
+	 * 旧版笔记由插件整篇写入：已知的生成标题下是任务链接行，时间轴是 ## TODO 下带 #id 的代码块。
+	 * 只有笔记中还没有任何围栏、且确实有任务链接或时间轴代码块时才转换；
+	 * 旧标题丢弃（合并时写入新标题），生成的内容之间用户写的行保持原位。
+	 * 新模板中没有的区块删除其任务链接行，时间轴代码块中可能有手动条目，原样保留
+	 */
+	private static convertLegacyLayout(lines: string[], sections: DailySection[]): string[] {
+		if (lines.some(line => line.trim().startsWith('<!-- gtd:begin '))) return lines;
+		const hasLegacyContent = lines.some((line, index) => line.includes(TASK_LINK)
+			|| (this.legacySection(line) === 'timeline' && this.nextContentLine(lines, index + 1)?.trim().startsWith('```timeline')));
+		if (!hasLegacyContent || !lines.some(line => this.legacySection(line))) return lines;
+
+		const wanted = new Set(sections.map(section => section.name));
+		const converted = new Set<string>();
+		const result: string[] = [];
+		let i = 0;
+		while (i < lines.length) {
+			const name = this.legacySection(lines[i]);
+			if (!name || converted.has(name)) {
+				result.push(lines[i++]);
+				continue;
+			}
+			converted.add(name);
+
+			const body: string[] = [];
+			let sawFence = false;
+			i++;
+			while (i < lines.length) {
+				const line = lines[i];
+				const next = this.legacySection(line);
+				if (next === 'timeline' && name === 'timeline') {
+					// 旧版时间轴写了两个 ## TODO 标题
+					i++;
+					continue;
+				}
+				if (next) break;
+				if (FENCE_REGEX.test(line)) {
+					if (name !== 'timeline' || sawFence) break;
+					sawFence = true;
+					let end = i + 1;
+					while (end < lines.length && !FENCE_REGEX.test(lines[end])) end++;
+					body.push(...lines.slice(i, end + 1));
+					i = end + 1;
+					continue;
+				}
+				if (line.trim() && !line.includes(TASK_LINK)) break;
+				body.push(line);
+				i++;
+			}
+
+			while (body.length > 0 && body[0].trim() === '') body.shift();
+			const trailing: string[] = [];
+			while (body.length > 0 && body[body.length - 1].trim() === '') trailing.unshift(body.pop() as string);
+
+			if (wanted.has(name)) {
+				result.push(this.beginMarker(name), ...body, this.endMarker(name));
+			} else {
+				result.push(...body.filter(line => !line.includes(TASK_LINK)));
+			}
+			result.push(...trailing);
+		}
+		return result;
+	}
+
+	private static legacySection(line: string): string | null {
+		const match = LEGACY_HEADINGS.find(([regex]) => regex.test(line));
+		return match ? match[1] : null;
+	}
+
+	private static nextContentLine(lines: string[], from: number): string | undefined {
+		return lines.slice(from).find(line => line.trim() !== '' && this.legacySection(line) !== 'timeline');
+	}
+
+	/**
+	 * 插入笔记中还不存在的区块：放在前一个已有区块之后，或后一个已有区块之前，都没有则追加到末尾
+	 */
+	private static insertRegion(lines: string[], block: string[], sections: DailySection[], index: number): string[] {
+		for (let i = index - 1; i >= 0; i--) {
+			const previous = this.findRegion(lines, sections[i].name);
+			if (previous) {
+				return [...lines.slice(0, previous.end + 1), '', ...block, ...lines.slice(previous.end + 1)];
+			}
+		}
+		for (let i = index + 1; i < sections.length; i++) {
+			const next = this.findRegion(lines, sections[i].name);
+			if (next) {
+				return [...lines.slice(0, next.start), ...block, '', ...lines.slice(next.start)];
+			}
+		}
+
+		const result = [...lines];
+		while (result.length > 0 && result[result.length - 1].trim() === '') result.pop();
+		if (result.length > 0) result.push('');
+		return [...result, ...block, ''];
+	}
+
+	private static findRegion(lines: string[], name: string): RegionRange | null {
+		const begin = this.beginMarker(name);
+		const end = this.endMarker(name);
+		const start = lines.findIndex(line => line.trim() === begin);
+		if (start < 0) return null;
+		for (let i = start + 1; i < lines.length; i++) {
+			if (lines[i].trim() === end) return { start, end: i };
+		}
+		return null;
+	}
+
+	/**
+	 * 收集所有区块中的任务 id 及其对应的行
+	 */
+	private static collectRegionIds(lines: string[], sections: DailySection[], known = new Set<string>()): Map<string, string[]> {
+		const ids = new Map<string, string[]>();
+		for (const section of sections) {
+			const region = this.findRegion(lines, section.name);
+			if (!region) continue;
+			for (let i = region.start + 1; i < region.end; i++) {
+				const id = this.lineId(lines[i], known);
+				if (!id) continue;
+				const existing = ids.get(id) ?? [];
+				existing.push(lines[i]);
+				ids.set(id, existing);
+			}
+		}
+		return ids;
+	}
+
+	/**
+	 * 行中属于插件的任务 id：任务链接或 #of-id；旧版行末的 #id 只有在新数据中存在时才算，避免把标签当成 id
+	 */
+	private static lineId(line: string, known: Set<string>): string | null {
+		const id = TaskFormatter.extractTaskId(line);
+		if (id) return id;
+		const legacy = TaskFormatter.extractLegacyHashId(line);
+		return legacy && known.has(legacy) ? legacy : null;
+	}
+}
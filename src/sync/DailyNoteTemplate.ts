@@ -0,0 +1,270 @@
+import { Task } from '../modal/Task';
+import { TaskFormatter } from '../modal/TaskFormatter';
+import { DailySection } from './DailyNoteMerger';
+
+/**
+ * 模板中可用的任务区块
+ */
+export type TemplateSectionName = 'weekGoals' | 'timeline' | 'today' | 'ongoing' | 'completed' | 'dropped';
+
+const SECTION_NAMES: TemplateSectionName[] = ['weekGoals', 'timeline', 'today', 'ongoing', 'completed', 'dropped'];
+
+// 模板区块对应的笔记围栏名称
+const REGION_NAMES: Record<TemplateSectionName, string> = {
+	weekGoals: 'week-goals',
+	timeline: 'timeline',
+	today: 'today',
+	ongoing: 'ongoing',
+	completed: 'completed',
+	dropped: 'dropped',
+};
+
+/**
+ * 默认模板，与之前固定的笔记布局一致
+ */
+export const DEFAULT_DAILY_TEMPLATE = `---
+date: {{date}}
+ongoing: {{count.ongoing}}
+completed: {{count.completed}}
+dropped: {{count.dropped}}
+synced: {{syncedAt}}
+---
+{{weekGoals title="## {year}年第{week}周目标 - {count} 个"}}
+
+{{timeline title="## 时间轴"}}
+
+{{today title="### 今日重点 - {count} 个"}}
+
+{{ongoing title="### 今日任务 - {count} 个"}}
+
+{{completed title="### 已完成任务 - {count} 个"}}
+
+{{dropped title="### 已丢弃任务 - {count} 个" empty="show"}}
+`;
+
+/**
+ * 按区块分好组的任务
+ */
+export type TaskGroups = Record<TemplateSectionName, Task[]>;
+
+/**
+ * 渲染模板所需的上下文
+ */
+export interface TemplateContext {
+	date: string;
+	year: number;
+	week: number;
+	syncedAt: Date;
+	groups: TaskGroups;
+}
+
+/**
+ * 渲染结果：新建笔记时的完整内容、合并用的区块和 front matter
+ */
+export interface DailyNoteDraft {
+	initialContent: string;
+	sections: DailySection[];
+	frontMatter: Array<[string, string]>;
+}
+
+/**
+ * 区块占位符选项
+ */
+interface SectionOptions {
+	title?: string;
+	sort?: string;
+	order?: string;
+	filter?: string;
+	empty?: string;
+}
+
+/**
+ * 每日笔记模板
+ *
+ * 区块占位符独占一行，例如：
+ * {{ongoing title="### 今日任务 - {count} 个" sort="due" order="asc" filter="flagged,!tag:Waiting" empty="hide"}}
+ * - title：区块标题，可使用 {count} {date} {week} {year}
+ * - sort：due | defer | completion | added | name | project | flagged | estimate | none
+ * - filter：逗号分隔，全部满足才显示，支持 flagged、due、tag:名称、project:名称，前加 ! 表示取反
+ * - empty：show 时任务为空也显示标题，默认 hide
+ *
+ * 其他位置可使用 {{date}} {{syncedAt}} {{week}} {{year}} {{count.区块名}}
+ */
+export class DailyNoteTemplate {
+	private template: string;
+
+	constructor(template?: string) {
+		this.template = template && template.trim() ? template.replace(/\r\n/g, '\n') : DEFAULT_DAILY_TEMPLATE;
+	}
+
+	/**
+	 * 按 Today 标签和完成状态为任务分组
+	 */
+	static groupTasks(tasks: Task[], weekGoals: Task[], todayTag: string): TaskGroups {
+		const today = tasks.filter(task => task.tags?.includes(todayTag) && !task.completionDate && !task.dropDate);
+		const others = tasks.filter(task => !task.tags?.includes(todayTag));
+		const ongoing = others.filter(task => !task.completionDate && !task.dropDate);
+		return {
+			weekGoals,
+			timeline: ongoing.concat(today),
+			today,
+			ongoing,
+			// 主任务完成，子任务也完成但是completted 为 false 的任务
+			completed: others.filter(task => task.completionDate).map(task => ({ ...task, completed: true })),
+			dropped: others.filter(task => task.dropDate),
+		};
+	}
+
+	render(context: TemplateContext): DailyNoteDraft {
+		const { frontMatter, body } = this.splitFrontMatter(this.template);
+		const sections: DailySection[] = [];
+		const outputLines: string[] = [];
+
+		for (const line of body.split('\n')) {
+			const placeholder = this.parseSectionPlaceholder(line);
+			if (!placeholder) {
+				outputLines.push(this.replaceScalars(line, context));
+				continue;
+			}
+			const regionName = REGION_NAMES[placeholder.name];
+			if (sections.some(section => section.name === regionName)) continue;
+			const section = { name: regionName, lines: this.renderSection(placeholder.name, placeholder.options, context) };
+			sections.push(section);
+			outputLines.push(`<!-- gtd:begin ${regionName} -->`, ...section.lines, `<!-- gtd:end ${regionName} -->`);
+		}
+
+		const frontMatterEntries: Array<[string, string]> = [];
+		for (const line of frontMatter) {
+			const match = line.match(/^([\w-]+):\s*(.*)$/);
+			if (match) frontMatterEntries.push([match[1], this.replaceScalars(match[2], context)]);
+		}
+		const frontMatterLines = frontMatter.length > 0
+			? ['---', ...frontMatter.map(line => this.replaceScalars(line, context)), '---']
+			: [];
+
+		return {
+			initialContent: [...frontMatterLines, ...outputLines].join('\n').replace(/\n*$/, '\n'),
+			sections,
+			frontMatter: frontMatterEntries,
+		};
+	}
+
+	private renderSection(name: TemplateSectionName, options: SectionOptions, context: TemplateContext): string[] {
+		const tasks = this.sortTasks(this.filterTasks(context.groups[name], options.filter), options.sort, options.order);
+		if (tasks.length === 0 && options.empty !== 'show') return [];
+
+		const lines: string[] = [];
+		if (options.title) {
+			lines.push(this.replaceScalars(options.title.replace(/\{count\}/g, String(tasks.length))
+				.replace(/\{(date|week|year)\}/g, '{{$1}}'), context), '');
+		}
+		if (name === 'timeline') {
+			if (tasks.length > 0) {
+				lines.push('```timeline', ...tasks.map(task => TaskFormatter.formatTimeline(task)), '```');
+			}
+		} else {
+			lines.push(...tasks.map(task => TaskFormatter.format(task, name === 'weekGoals')));
+		}
+		while (lines.length > 0 && lines[lines.length - 1] === '') lines.pop();
+		return lines;
+	}
+
+	private filterTasks(tasks: Task[], filter: string | undefined): Task[] {
+		if (!filter) return tasks;
+		const rules = filter.split(',').map(rule => rule.trim()).filter(Boolean);
+		return tasks.filter(task => rules.every(rule => {
+			const negate = rule.startsWith('!');
+			const body = negate ? rule.slice(1) : rule;
+			const [key, ...rest] = body.split(':');
+			const value = rest.join(':');
+			let matched: boolean;
+			switch (key) {
+				case 'flagged':
+					matched = !!task.flagged;
+					break;
+				case 'due':
+					matched = !!task.dueDate;
+					break;
+				case 'tag':
+					matched = !!task.tags?.includes(value);
+					break;
+				case 'project':
+					matched = task.project === value;
+					break;
+				default:
+					console.warn(`Unknown template filter: ${rule}`);
+					matched = true;
+			}
+			return negate ? !matched : matched;
+		}));
+	}
+
+	private sortTasks(tasks: Task[], sort = 'due', order = 'asc'): Task[] {
+		if (sort === 'none') return tasks;
+		const direction = order === 'desc' ? -1 : 1;
+		const dateValue = (value?: string | null) => value ? new Date(value).getTime() : null;
+		const keyOf = (task: Task): number | string | null => {
+			switch (sort) {
+				case 'defer': return dateValue(task.deferDate);
+				case 'completion': return dateValue(task.completionDate);
+				case 'added': return dateValue(task.added);
+				case 'name': return task.name ?? null;
+				case 'project': return task.project ?? null;
+				case 'flagged': return task.flagged ? 0 : 1;
+				case 'estimate': return task.estimatedMinutes ?? null;
+				default: return dateValue(task.dueDate);
+			}
+		};
+		// 没有排序值的任务始终排在最后
+		return [...tasks].sort((a, b) => {
+			const aKey = keyOf(a);
+			const bKey = keyOf(b);
+			if (aKey === null && bKey === null) return 0;
+			if (aKey === null) return 1;
+			if (bKey === null) return -1;
+			if (typeof aKey === 'string' || typeof bKey === 'string') {
+				return String(aKey).localeCompare(String(bKey)) * direction;
+			}
+			return (aKey - bKey) * direction;
+		});
+	}
+
+	private parseSectionPlaceholder(line: string): { name: TemplateSectionName; options: SectionOptions } | null {
+		const match = line.trim().match(/^\{\{\s*(\w+)((?:\s+\w+="[^"]*")*)\s*\}\}$/);
+		if (!match || !SECTION_NAMES.includes(match[1] as TemplateSectionName)) return null;
+		const options: Record<string, string> = {};
+		const attrRegex = /(\w+)="([^"]*)"/g;
+		let attr: RegExpExecArray | null;
+		while ((attr = attrRegex.exec(match[2])) !== null) {
+			options[attr[1]] = attr[2];
+		}
+		return { name: match[1] as TemplateSectionName, options };
+	}
+
+	private replaceScalars(text: string, context: TemplateContext): string {
+		return text.replace(/\{\{\s*([\w.]+)\s*\}\}/g, (placeholder, key: string) => {
+			switch (key) {
+				case 'date': return context.date;
+				case 'week': return String(context.week);
+				case 'year': return String(context.year);
+				case 'syncedAt': return this.formatDateTime(context.syncedAt);
+			}
+			const countMatch = key.match(/^count\.(\w+)$/);
+			if (countMatch && SECTION_NAMES.includes(countMatch[1] as TemplateSectionName)) {
+				return String(context.groups[countMatch[1] as TemplateSectionName].length);
+			}
+			return placeholder;
+		});
+	}
+
+	private splitFrontMatter(template: string): { frontMatter: string[]; body: string } {
+		const match = template.match(/^---\n([\s\S]*?)\n---\n?/);
+		if (!match) return { frontMatter: [], body: template };
+		return { frontMatter: match[1].split('\n'), body: template.slice(match[0].length) };
+	}
+
+	private formatDateTime(date: Date): string {
+		const pad = (n: number) => n.toString().padStart(2, '0');
+		return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())} ${pad(date.getHours())}:${pad(date.getMinutes())}`;
+	}
+}
@@ -0,0 +1,186 @@
+import { MergeReport } from './DailyNoteMerger';
+
+/**
+ * 同步任务状态
+ * pending：已创建，等待 OmniFocus 领取
+ * running：OmniFocus 已领取，正在导出
+ * completed / failed / timeout：结束状态
+ */
+export type SyncJobStatus = 'pending' | 'running' | 'completed' | 'failed' | 'timeout';
+
+/**
+ * 一次同步请求
+ */
+export interface SyncJob {
+	id: string;
+	date: string;
+	// 多日同步的最后一天（包含），单日同步时没有
+	to?: string;
+	status: SyncJobStatus;
+	createdAt: string;
+	claimedAt?: string;
+	finishedAt?: string;
+	error?: string;
+	report?: MergeReport;
+	// 多日同步每天的变化
+	days?: Record<string, MergeReport>;
+}
+
+// 最多保留的已结束任务数量
+const MAX_FINISHED_JOBS = 50;
+
+/**
+ * 同步任务管理
+ *
+ * Obsidian 创建任务并通过一次 URL 调用通知 OmniFocus，OmniFocus 插件领取任务（或轮询 /api/jobs/next），
+ * 导出完成后针对任务 id 回传结果。每个任务单独跟踪进度、超时和失败。
+ * 超时从创建开始计时，领取后重新计时；收到结果后停止计时，写入笔记期间不会超时。
+ */
+export class SyncJobManager {
+	private jobs: Map<string, SyncJob> = new Map();
+	private timers: Map<string, number> = new Map();
+	// 等待任务结束的回调
+	private waiters: Map<string, ((job: SyncJob) => void)[]> = new Map();
+	// 已收到结果、正在写入笔记的任务
+	private applying: Set<string> = new Set();
+	private onUpdate: (job: SyncJob) => void;
+	private timeoutMs: number;
+
+	constructor(onUpdate: (job: SyncJob) => void, timeoutMs = 60000) {
+		this.onUpdate = onUpdate;
+		this.timeoutMs = timeoutMs;
+	}
+
+	create(date: string, to?: string): SyncJob {
+		const job: SyncJob = {
+			id: `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`,
+			date,
+			...(to && to !== date ? { to } : {}),
+			status: 'pending',
+			createdAt: new Date().toISOString(),
+		};
+		this.jobs.set(job.id, job);
+		this.startTimer(job.id);
+		this.prune();
+		this.onUpdate(job);
+		return job;
+	}
+
+	get(id: string): SyncJob | undefined {
+		return this.jobs.get(id);
+	}
+
+	/**
+	 * 按创建时间倒序列出任务
+	 */
+	list(): SyncJob[] {
+		return Array.from(this.jobs.values()).reverse();
+	}
+
+	/**
+	 * 领取最早的待处理任务
+	 */
+	claimNext(): SyncJob | null {
+		for (const job of this.jobs.values()) {
+			if (job.status === 'pending') return this.claim(job.id);
+		}
+		return null;
+	}
+
+	/**
+	 * 领取指定任务，只有 pending 状态可以领取
+	 */
+	claim(id: string): SyncJob | null {
+		const job = this.jobs.get(id);
+		if (!job || job.status !== 'pending') return null;
+		job.status = 'running';
+		job.claimedAt = new Date().toISOString();
+		// 领取后重新计时，给 OmniFocus 完整的导出时间
+		this.startTimer(id);
+		this.onUpdate(job);
+		return job;
+	}
+
+	/**
+	 * 收到结果，开始写入笔记：未领取的任务视为已领取，停止超时计时
+	 * @returns 任务已结束或结果已在写入时返回 null
+	 */
+	receive(id: string): SyncJob | null {
+		const job = this.jobs.get(id);
+		if (!job || !this.isActive(job) || this.applying.has(id)) return null;
+		if (job.status === 'pending') this.claim(id);
+		this.clearTimer(id);
+		this.applying.add(id);
+		return job;
+	}
+
+	complete(id: string, report?: MergeReport): SyncJob | null {
+		return this.finish(id, 'completed', { report });
+	}
+
+	fail(id: string, error: string): SyncJob | null {
+		return this.finish(id, 'failed', { error });
+	}
+
+	/**
+	 * 等待任务结束（完成、失败或超时）
+	 */
+	wait(id: string): Promise<SyncJob> {
+		const job = this.jobs.get(id);
+		if (!job) return Promise.reject(new Error(`同步任务 ${id} 不存在`));
+		if (!this.isActive(job)) return Promise.resolve(job);
+		return new Promise(resolve => {
+			this.waiters.set(id, [...(this.waiters.get(id) ?? []), resolve]);
+		});
+	}
+
+	/**
+	 * 是否仍可提交结果
+	 */
+	isActive(job: SyncJob): boolean {
+		return job.status === 'pending' || job.status === 'running';
+	}
+
+	dispose(): void {
+		for (const timer of this.timers.values()) window.clearTimeout(timer);
+		this.timers.clear();
+		this.waiters.clear();
+		this.applying.clear();
+	}
+
+	private startTimer(id: string): void {
+		this.clearTimer(id);
+		this.timers.set(id, window.setTimeout(() => this.expire(id), this.timeoutMs));
+	}
+
+	private clearTimer(id: string): void {
+		const timer = this.timers.get(id);
+		if (timer !== undefined) window.clearTimeout(timer);
+		this.timers.delete(id);
+	}
+
+	private expire(id: string): void {
+		// 正在写入结果的任务由写入结果决定完成或失败
+		if (this.applying.has(id)) return;
+		this.finish(id, 'timeout', { error: `OmniFocus 未在 ${Math.round(this.timeoutMs / 1000)} 秒内响应` });
+	}
+
+	private finish(id: string, status: SyncJobStatus, extra: Partial<SyncJob>): SyncJob | null {
+		const job = this.jobs.get(id);
+		if (!job || !this.isActive(job)) return null;
+		Object.assign(job, extra, { status, finishedAt: new Date().toISOString() });
+		this.clearTimer(id);
+		this.applying.delete(id);
+		this.onUpdate(job);
+		for (const resolve of this.waiters.get(id) ?? []) resolve(job);
+		this.waiters.delete(id);
+		return job;
+	}
+
+	private prune(): void {
+		const finished = Array.from(this.jobs.values()).filter(job => !this.isActive(job));
+		for (const job of finished.slice(0, Math.max(0, finished.length - MAX_FINISHED_JOBS))) {
+			this.jobs.delete(job.id);
+		}
+	}
+}
@@ -0,0 +1,66 @@
+import { Task } from '../modal/Task';
+import { DailyNotes } from '../utils/DailyNotes';
+import { MergeReport } from './DailyNoteMerger';
+
+// 一次同步最多覆盖的天数
+export const MAX_SYNC_DAYS = 31;
+
+/**
+ * 多日同步：OmniFocus 只导出一次，再按日期分到每天的笔记
+ */
+export class SyncRange {
+	/**
+	 * from 到 to（包含）之间的所有日期，格式不正确、顺序颠倒或超过 MAX_SYNC_DAYS 时返回 null
+	 */
+	static days(from: string, to: string): string[] | null {
+		if (!DailyNotes.parseDate(from) || !DailyNotes.parseDate(to) || from > to) return null;
+		const days: string[] = [];
+		for (let day = from; day <= to; day = DailyNotes.addDays(day, 1)) {
+			if (days.length >= MAX_SYNC_DAYS) return null;
+			days.push(day);
+		}
+		return days;
+	}
+
+	/**
+	 * 把任务分到范围内的每一天，完成和丢弃的判断与 DailyNoteTemplate.groupTasks 相同
+	 * - 有完成日期的任务放在完成日期，不在范围内时忽略
+	 * - 有丢弃日期的任务放在丢弃日期，不在范围内时忽略
+	 * - 截止日期在范围内时放在截止日期，其次是推迟日期
+	 * - 其余任务（已过期、没有日期或日期在范围之后）放在第一天
+	 */
+	static split(tasks: Task[], days: string[]): Map<string, Task[]> {
+		const result = new Map<string, Task[]>(days.map(day => [day, []]));
+		if (days.length === 0) return result;
+		for (const task of tasks) {
+			let day: string | null;
+			if (task.completionDate || task.dropDate) {
+				day = this.dayIn(task.completionDate || task.dropDate, result);
+				if (!day) continue;
+			} else {
+				day = this.dayIn(task.dueDate, result) ?? this.dayIn(task.deferDate, result) ?? days[0];
+			}
+			result.get(day)?.push(task);
+		}
+		return result;
+	}
+
+	/**
+	 * 合并多天的变化
+	 */
+	static total(reports: MergeReport[]): MergeReport {
+		return {
+			added: reports.flatMap(report => report.added),
+			updated: reports.flatMap(report => report.updated),
+			removed: reports.flatMap(report => report.removed),
+		};
+	}
+
+	private static dayIn(value: string | null | undefined, days: Map<string, Task[]>): string | null {
+		if (!value) return null;
+		const date = new Date(value);
+		if (isNaN(date.getTime())) return null;
+		const day = DailyNotes.formatDate(date);
+		return days.has(day) ? day : null;
+	}
+}
@@ -0,0 +1,183 @@
+import { App } from 'obsidian';
+import { Task } from '../modal/Task';
+import { TaskFormatter } from '../modal/TaskFormatter';
+import { TaskIndex } from '../tasks/TaskIndex';
+import { DailyNotes } from '../utils/DailyNotes';
+import { FirstDayOfWeek, WeekInfo, Weeks } from '../utils/Weeks';
+import { DailyNoteMerger, DailySection, MergeReport } from './DailyNoteMerger';
+
+/**
+ * 每日笔记中的任务统计
+ */
+export interface DayStats {
+	date: string;
+	exists: boolean;
+	completed: number;
+	ongoing: number;
+	dropped: number;
+}
+
+/**
+ * 生成的周笔记，由调用方写入文件
+ */
+export interface WeeklyNoteResult {
+	path: string;
+	existing: string;
+	content: string;
+	report: MergeReport;
+}
+
+/**
+ * 周笔记（YYYY-Www.md）
+ *
+ * - 本周目标：本周每日笔记中同步的周目标，周笔记中的勾选状态优先
+ * - 上周未完成：上周的目标（包括上周结转的）中未完成、本周也没有再次出现的
+ * - 每日完成情况：从任务索引统计每天的完成、进行中和丢弃数量
+ */
+export class WeeklyNote {
+	private app: App;
+	private index: TaskIndex;
+
+	constructor(app: App, index: TaskIndex) {
+		this.app = app;
+		this.index = index;
+	}
+
+	static getPath(savePath: string, info: WeekInfo): string {
+		return `${savePath}/${Weeks.format(info)}.md`;
+	}
+
+	async build(savePath: string, date: Date, firstDayOfWeek: FirstDayOfWeek): Promise<WeeklyNoteResult> {
+		const info = Weeks.getWeek(date, firstDayOfWeek);
+		const previous = Weeks.getWeek(new Date(info.start.getFullYear(), info.start.getMonth(), info.start.getDate() - 7), firstDayOfWeek);
+		const path = WeeklyNote.getPath(savePath, info);
+		const existing = await this.read(path);
+
+		const goals = await this.collectGoals(savePath, info, ['week-goals']);
+		const previousGoals = await this.collectGoals(savePath, previous, ['week-goals', 'carry-over']);
+		// 本周笔记中对结转目标的勾选
+		const carryState = this.collectRegionTasks(existing, ['carry-over'], new Map());
+		const carryOver = Array.from(previousGoals.values())
+			.filter(task => !goals.has(task.id) && !this.isFinished(task))
+			.map(task => carryState.get(task.id) ?? task);
+
+		const sections: DailySection[] = [
+			{
+				name: 'week-goals',
+				lines: this.renderTasks(`## 本周目标 - ${goals.size} 个`, Array.from(goals.values())),
+			},
+			{
+				name: 'carry-over',
+				lines: carryOver.length > 0 ? this.renderTasks(`## 上周未完成 - ${carryOver.length} 个`, carryOver) : [],
+			},
+			{
+				name: 'daily-stats',
+				lines: this.renderStats(info, Weeks.days(info).map(day => this.collectStats(savePath, day))),
+				replace: true,
+			},
+		];
+
+		const frontMatter: Array<[string, string]> = [
+			['week', Weeks.format(info)],
+			['start', DailyNotes.formatDate(info.start)],
+			['end', DailyNotes.formatDate(info.end)],
+		];
+		const initialContent = [
+			'---',
+			...frontMatter.map(([key, value]) => `${key}: ${value}`),
+			'---',
+			`# ${info.year}年第${info.week}周`,
+			'',
+			DailyNoteMerger.render(sections),
+		].join('\n');
+		const merged = DailyNoteMerger.merge(existing, sections, initialContent);
+		return {
+			path,
+			existing,
+			content: DailyNoteMerger.mergeFrontMatter(merged.content, frontMatter),
+			report: merged.report,
+		};
+	}
+
+	/**
+	 * 收集一周的目标：先读每日笔记中的周目标区块，再用周笔记中的勾选状态覆盖
+	 */
+	private async collectGoals(savePath: string, info: WeekInfo, regions: string[]): Promise<Map<string, Task>> {
+		const goals = new Map<string, Task>();
+		for (const day of Weeks.days(info)) {
+			const content = await this.read(DailyNotes.getPath(savePath, DailyNotes.formatDate(day)));
+			this.collectRegionTasks(content, ['week-goals'], goals);
+		}
+		const weekly = this.collectRegionTasks(await this.read(WeeklyNote.getPath(savePath, info)), regions, new Map());
+		for (const [id, task] of weekly) {
+			const synced = goals.get(id);
+			goals.set(id, synced && this.isFinished(synced) ? synced : task);
+		}
+		return goals;
+	}
+
+	private collectRegionTasks(content: string, regions: string[], target: Map<string, Task>): Map<string, Task> {
+		for (const region of regions) {
+			for (const line of DailyNoteMerger.extractRegion(content, region) ?? []) {
+				const task = TaskFormatter.parseLineToTask(line);
+				if (task?.id) target.set(task.id, task);
+			}
+		}
+		return target;
+	}
+
+	private collectStats(savePath: string, day: Date): DayStats {
+		const date = DailyNotes.formatDate(day);
+		const path = DailyNotes.getPath(savePath, date);
+		const records = this.index.getFile(path);
+		return {
+			date,
+			exists: !!this.app.vault.getAbstractFileByPath(path),
+			completed: records.filter(record => record.status === 'completed').length,
+			ongoing: records.filter(record => record.status === 'ongoing').length,
+			dropped: records.filter(record => record.status === 'dropped').length,
+		};
+	}
+
+	private renderTasks(title: string, tasks: Task[]): string[] {
+		if (tasks.length === 0) return [title];
+		return [
+			title,
+			'',
+			...tasks.map(task => TaskFormatter.format({ ...task, completed: this.isFinished(task) && !task.dropDate })),
+		];
+	}
+
+	private renderStats(info: WeekInfo, stats: DayStats[]): string[] {
+		const rate = (completed: number, ongoing: number) => completed + ongoing > 0
+			? `${Math.round(completed / (completed + ongoing) * 100)}%`
+			: '-';
+		const lines = [
+			'## 每日完成情况',
+			'',
+			'| 日期 | 星期 | 完成 | 进行中 | 丢弃 | 完成率 |',
+			'| --- | --- | --- | --- | --- | --- |',
+		];
+		Weeks.days(info).forEach((day, i) => {
+			const stat = stats[i];
+			lines.push(stat.exists
+				? `| [[${stat.date}]] | ${Weeks.weekdayName(day)} | ${stat.completed} | ${stat.ongoing} | ${stat.dropped} | ${rate(stat.completed, stat.ongoing)} |`
+				: `| ${stat.date} | ${Weeks.weekdayName(day)} | - | - | - | - |`);
+		});
+		const total = stats.reduce((sum, day) => ({
+			completed: sum.completed + day.completed,
+			ongoing: sum.ongoing + day.ongoing,
+			dropped: sum.dropped + day.dropped,
+		}), { completed: 0, ongoing: 0, dropped: 0 });
+		lines.push(`| 合计 | | ${total.completed} | ${total.ongoing} | ${total.dropped} | ${rate(total.completed, total.ongoing)} |`);
+		return lines;
+	}
+
+	private isFinished(task: Task): boolean {
+		return !!task.completed || !!task.completionDate || !!task.dropDate;
+	}
+
+	private async read(path: string): Promise<string> {
+		return await this.app.vault.adapter.exists(path) ? this.app.vault.adapter.read(path) : '';
+	}
+}
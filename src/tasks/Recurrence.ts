@@ -0,0 +1,308 @@
+import { RepetitionMethod, Task } from '../modal/Task';
+
+export type RecurrenceFrequency = 'DAILY' | 'WEEKLY' | 'MONTHLY' | 'YEARLY';
+
+/**
+ * 解析后的 RRULE，只支持 FREQ、INTERVAL、BYDAY、BYMONTHDAY、COUNT、UNTIL
+ */
+export interface RecurrenceRule {
+	freq: RecurrenceFrequency;
+	interval: number;
+	// weekday 为 0-6（周日为 0），ordinal 为月内第几个，例如 2MO、-1FR
+	byDay: Array<{ weekday: number; ordinal?: number }>;
+	// 负数从月末倒数
+	byMonthDay: number[];
+	count?: number;
+	until?: Date;
+}
+
+const WEEKDAYS = ['SU', 'MO', 'TU', 'WE', 'TH', 'FR', 'SA'];
+const FREQUENCIES: RecurrenceFrequency[] = ['DAILY', 'WEEKLY', 'MONTHLY', 'YEARLY'];
+// 规则无法再产生日期时（例如 BYMONTHDAY=31 且 INTERVAL=12 落在小月）避免死循环
+const MAX_PERIODS = 5000;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * 重复规则引擎
+ *
+ * 按 RFC 5545 展开 RRULE，周从周一开始（WKST=MO）。每次发生的时刻沿用起始日期的时分。
+ * 起始日期本身不符合规则时不算作一次发生。
+ */
+export class Recurrence {
+	/**
+	 * 解析 RRULE，可以带 RRULE: 前缀，不支持的 FREQ 返回 null
+	 */
+	static parse(rrule: string): RecurrenceRule | null {
+		const rule: RecurrenceRule = { freq: 'DAILY', interval: 1, byDay: [], byMonthDay: [] };
+		let hasFreq = false;
+		for (const part of rrule.trim().replace(/^RRULE:/i, '').split(';')) {
+			const [rawKey, rawValue = ''] = part.split('=');
+			const key = rawKey.trim().toUpperCase();
+			const value = rawValue.trim().toUpperCase();
+			switch (key) {
+				case 'FREQ':
+					if (!FREQUENCIES.includes(value as RecurrenceFrequency)) return null;
+					rule.freq = value as RecurrenceFrequency;
+					hasFreq = true;
+					break;
+				case 'INTERVAL':
+					rule.interval = Math.max(1, parseInt(value, 10) || 1);
+					break;
+				case 'COUNT':
+					rule.count = parseInt(value, 10) || undefined;
+					break;
+				case 'UNTIL':
+					rule.until = this.parseUntil(value) ?? undefined;
+					break;
+				case 'BYDAY':
+					for (const item of value.split(',')) {
+						const match = item.match(/^([+-]?\d{1,2})?(SU|MO|TU|WE|TH|FR|SA)$/);
+						if (!match) continue;
+						rule.byDay.push({
+							weekday: WEEKDAYS.indexOf(match[2]),
+							ordinal: match[1] ? parseInt(match[1], 10) : undefined,
+						});
+					}
+					break;
+				case 'BYMONTHDAY':
+					rule.byMonthDay = value.split(',').map(item => parseInt(item, 10)).filter(day => day !== 0 && Math.abs(day) <= 31);
+					break;
+			}
+		}
+		return hasFreq ? rule : null;
+	}
+
+	/**
+	 * 格式化为 RRULE 字符串
+	 */
+	static format(rule: RecurrenceRule): string {
+		const parts = [`FREQ=${rule.freq}`];
+		if (rule.interval > 1) parts.push(`INTERVAL=${rule.interval}`);
+		if (rule.byDay.length > 0) {
+			parts.push(`BYDAY=${rule.byDay.map(day => `${day.ordinal ?? ''}${WEEKDAYS[day.weekday]}`).join(',')}`);
+		}
+		if (rule.byMonthDay.length > 0) parts.push(`BYMONTHDAY=${rule.byMonthDay.join(',')}`);
+		if (rule.count !== undefined) parts.push(`COUNT=${rule.count}`);
+		if (rule.until) parts.push(`UNTIL=${this.formatUntil(rule.until)}`);
+		return parts.join(';');
+	}
+
+	/**
+	 * 从 start 开始，落在 [from, to] 之间的所有发生时刻
+	 */
+	static between(rule: RecurrenceRule, start: Date, from: Date, to: Date): Date[] {
+		const result: Date[] = [];
+		this.iterate(rule, start, date => {
+			if (date > to) return false;
+			if (date >= from) result.push(date);
+			return true;
+		});
+		return result;
+	}
+
+	/**
+	 * 从 start 开始，第一个晚于 after 的发生时刻，规则已结束时返回 null
+	 */
+	static after(rule: RecurrenceRule, start: Date, after: Date): Date | null {
+		let next: Date | null = null;
+		this.iterate(rule, start, date => {
+			if (date <= after) return true;
+			next = date;
+			return false;
+		});
+		return next;
+	}
+
+	/**
+	 * 完成一次重复任务后生成下一次，规则已结束时返回 null
+	 *
+	 * 与 OmniFocus 相同：
+	 * - fixed：按原来的日程，截止和推迟日期一起移到下一次
+	 * - due-again：从完成时刻起算下一个截止日期
+	 * - defer-another：从完成时刻起算下一个推迟日期
+	 * 另一个日期与原来保持相同的间隔。COUNT 随之减一，没有日期的任务直接重新开始。
+	 */
+	static nextTask(task: Task, completedAt: Date, method: RepetitionMethod = task.repetitionMethod ?? 'fixed'): Task | null {
+		const rule = task.repetitionRule ? this.parse(task.repetitionRule) : null;
+		if (!rule) return null;
+		if (rule.count !== undefined) {
+			if (rule.count <= 1) return null;
+			rule.count--;
+		}
+
+		const due = this.parseTaskDate(task.dueDate);
+		const defer = this.parseTaskDate(task.deferDate);
+		const next: Task = {
+			...task,
+			completed: false,
+			completionDate: undefined,
+			repetitionRule: this.format(rule),
+		};
+		const anchor = method === 'defer-another' ? defer ?? due : due ?? defer;
+		if (!anchor) return next;
+
+		let nextAnchor: Date | null;
+		if (method === 'fixed') {
+			// 按原日程计算时 COUNT 已经包含之前的次数，不再限制
+			nextAnchor = this.after({ ...rule, count: undefined }, anchor, anchor);
+		} else {
+			// 从完成当天、原来的时分开始重新排日程
+			const restart = new Date(completedAt.getFullYear(), completedAt.getMonth(), completedAt.getDate(),
+				anchor.getHours(), anchor.getMinutes(), anchor.getSeconds());
+			nextAnchor = this.after({ ...rule, count: undefined }, restart, restart);
+		}
+		if (!nextAnchor || (rule.until && nextAnchor > rule.until)) return null;
+
+		const days = this.dayDifference(anchor, nextAnchor);
+		if (due) next.dueDate = this.addDays(due, days).toISOString();
+		if (defer) next.deferDate = this.addDays(defer, days).toISOString();
+		return next;
+	}
+
+	/**
+	 * 重复任务在 [from, to] 之间的后续日期，不含任务当前所在的这一次
+	 * 从完成时起算的任务假设每次都按时完成
+	 */
+	static occurrences(task: Task, from: Date, to: Date): Date[] {
+		const rule = task.repetitionRule ? this.parse(task.repetitionRule) : null;
+		const anchor = task.repetitionMethod === 'defer-another'
+			? this.parseTaskDate(task.deferDate) ?? this.parseTaskDate(task.dueDate)
+			: this.parseTaskDate(task.dueDate) ?? this.parseTaskDate(task.deferDate);
+		if (!rule || !anchor) return [];
+		return this.between(rule, anchor, from, to).filter(date => date > anchor);
+	}
+
+	/**
+	 * 按周期依次产生日期，回调返回 false 时停止
+	 */
+	private static iterate(rule: RecurrenceRule, start: Date, visit: (date: Date) => boolean): void {
+		let emitted = 0;
+		for (let period = 0; period < MAX_PERIODS; period++) {
+			for (const date of this.candidates(rule, start, period)) {
+				if (date < start) continue;
+				if (rule.until && date > rule.until) return;
+				if (rule.count !== undefined && emitted >= rule.count) return;
+				emitted++;
+				if (!visit(date)) return;
+			}
+		}
+	}
+
+	/**
+	 * 第 period 个周期内符合规则的日期，按时间排列
+	 */
+	private static candidates(rule: RecurrenceRule, start: Date, period: number): Date[] {
+		const at = (year: number, month: number, day: number) =>
+			new Date(year, month, day, start.getHours(), start.getMinutes(), start.getSeconds());
+		const step = period * rule.interval;
+		let dates: Date[];
+
+		switch (rule.freq) {
+			case 'DAILY':
+				dates = [at(start.getFullYear(), start.getMonth(), start.getDate() + step)];
+				break;
+			case 'WEEKLY': {
+				const monday = start.getDate() - (start.getDay() + 6) % 7 + step * 7;
+				const weekdays = rule.byDay.length > 0 ? rule.byDay.map(day => day.weekday) : [start.getDay()];
+				dates = weekdays
+					.map(weekday => at(start.getFullYear(), start.getMonth(), monday + (weekday + 6) % 7))
+					.sort((a, b) => a.getTime() - b.getTime());
+				break;
+			}
+			case 'MONTHLY':
+				dates = this.monthDays(rule, start, start.getFullYear(), start.getMonth() + step)
+					.map(([year, month, day]) => at(year, month, day));
+				break;
+			case 'YEARLY':
+				dates = this.monthDays(rule, start, start.getFullYear() + step, start.getMonth())
+					.map(([year, month, day]) => at(year, month, day));
+				break;
+		}
+
+		// DAILY 和 WEEKLY 中的 BYMONTHDAY、DAILY 中的 BYDAY 作为筛选条件
+		return dates.filter(date => {
+			if (rule.freq === 'DAILY' && rule.byDay.length > 0
+				&& !rule.byDay.some(day => day.weekday === date.getDay())) return false;
+			if ((rule.freq === 'DAILY' || rule.freq === 'WEEKLY') && rule.byMonthDay.length > 0
+				&& !rule.byMonthDay.some(day => this.resolveMonthDay(date.getFullYear(), date.getMonth(), day) === date.getDate())) return false;
+			return true;
+		});
+	}
+
+	/**
+	 * 某个月中符合 BYMONTHDAY / BYDAY 的日期，都没有时取起始日期的日
+	 */
+	private static monthDays(rule: RecurrenceRule, start: Date, year: number, month: number): Array<[number, number, number]> {
+		const first = new Date(year, month, 1);
+		const y = first.getFullYear();
+		const m = first.getMonth();
+		const length = new Date(y, m + 1, 0).getDate();
+		const days = new Set<number>();
+
+		for (const value of rule.byMonthDay) {
+			const day = this.resolveMonthDay(y, m, value);
+			if (day !== null) days.add(day);
+		}
+		for (const { weekday, ordinal } of rule.byDay) {
+			const matching: number[] = [];
+			for (let day = 1; day <= length; day++) {
+				if (new Date(y, m, day).getDay() === weekday) matching.push(day);
+			}
+			if (ordinal === undefined) {
+				matching.forEach(day => days.add(day));
+			} else {
+				const day = ordinal > 0 ? matching[ordinal - 1] : matching[matching.length + ordinal];
+				if (day !== undefined) days.add(day);
+			}
+		}
+		// 没有 BYMONTHDAY 和 BYDAY 时沿用起始日期的日，小月没有这一天时跳过
+		if (rule.byMonthDay.length === 0 && rule.byDay.length === 0 && start.getDate() <= length) {
+			days.add(start.getDate());
+		}
+		return Array.from(days).sort((a, b) => a - b).map(day => [y, m, day]);
+	}
+
+	private static resolveMonthDay(year: number, month: number, value: number): number | null {
+		const length = new Date(year, month + 1, 0).getDate();
+		const day = value > 0 ? value : length + value + 1;
+		return day >= 1 && day <= length ? day : null;
+	}
+
+	/**
+	 * UNTIL 可以是 yyyymmdd 或 yyyymmddThhmmss[Z]，只有日期时包含当天
+	 */
+	private static parseUntil(value: string): Date | null {
+		const match = value.match(/^(\d{4})(\d{2})(\d{2})(?:T(\d{2})(\d{2})(\d{2})(Z)?)?$/);
+		if (!match) return null;
+		const [, year, month, day, hours, minutes, seconds, utc] = match;
+		if (!hours) return new Date(+year, +month - 1, +day, 23, 59, 59);
+		return utc
+			? new Date(Date.UTC(+year, +month - 1, +day, +hours, +minutes, +seconds))
+			: new Date(+year, +month - 1, +day, +hours, +minutes, +seconds);
+	}
+
+	private static formatUntil(date: Date): string {
+		return date.toISOString().replace(/[-:]/g, '').replace(/\.\d{3}/, '');
+	}
+
+	private static parseTaskDate(value?: string | null): Date | null {
+		if (!value) return null;
+		const date = new Date(value);
+		return isNaN(date.getTime()) ? null : date;
+	}
+
+	/**
+	 * 两个时刻之间相差的自然日，不受夏令时影响
+	 */
+	private static dayDifference(from: Date, to: Date): number {
+		const start = Date.UTC(from.getFullYear(), from.getMonth(), from.getDate());
+		const end = Date.UTC(to.getFullYear(), to.getMonth(), to.getDate());
+		return Math.round((end - start) / DAY_MS);
+	}
+
+	private static addDays(date: Date, days: number): Date {
+		const result = new Date(date);
+		result.setDate(result.getDate() + days);
+		return result;
+	}
+}
@@ -0,0 +1,269 @@
+import { App, CachedMetadata, TAbstractFile, TFile } from 'obsidian';
+import { Task, TaskStatus } from '../modal/Task';
+import { TaskFormatter } from '../modal/TaskFormatter';
+import { DailyNotes } from '../utils/DailyNotes';
+import { Recurrence } from './Recurrence';
+
+/**
+ * 索引中的一条任务记录
+ */
+export interface TaskRecord {
+	id: string | null;
+	// 所在每日笔记的日期，其他笔记中的任务取截止日期
+	date: string | null;
+	path: string;
+	lineNumber: number;
+	status: TaskStatus;
+	line: string;
+	task: Task | null;
+}
+
+/**
+ * 任务查询条件，所有条件同时满足
+ */
+export interface TaskQuery {
+	id?: string;
+	status?: TaskStatus;
+	tag?: string;
+	project?: string;
+	path?: string;
+	// 日期范围，yyyy-mm-dd，包含两端
+	from?: string;
+	to?: string;
+}
+
+/**
+ * 重复任务的一次后续发生
+ */
+export interface TaskOccurrence {
+	record: TaskRecord;
+	// yyyy-mm-dd
+	date: string;
+	time: Date;
+}
+
+/**
+ * 全库任务索引
+ *
+ * 启动时根据 metadataCache 找出含有任务的笔记并建立索引，之后随文件修改、重命名、删除更新。
+ * 代码块中的行（例如时间轴）是任务列表的副本，不计入索引。
+ */
+export class TaskIndex {
+	private app: App;
+	private files: Map<string, TaskRecord[]> = new Map();
+	private byId: Map<string, TaskRecord[]> = new Map();
+	private listeners: Set<(path: string) => void> = new Set();
+	private statusListeners: Set<(record: TaskRecord, previous: TaskRecord) => void> = new Set();
+
+	constructor(app: App) {
+		this.app = app;
+	}
+
+	/**
+	 * 为库中所有含任务的笔记建立索引
+	 */
+	async build(): Promise<void> {
+		this.files.clear();
+		this.byId.clear();
+		for (const file of this.app.vault.getMarkdownFiles()) {
+			if (!this.hasTasks(this.app.metadataCache.getFileCache(file), file.path)) continue;
+			this.update(file.path, await this.app.vault.cachedRead(file));
+		}
+	}
+
+	/**
+	 * metadataCache 在文件修改并重新解析后触发，此时直接使用最新内容
+	 */
+	handleChanged(file: TFile, content: string, cache: CachedMetadata): void {
+		if (!this.files.has(file.path) && !this.hasTasks(cache, file.path)) return;
+		this.update(file.path, content);
+	}
+
+	handleRename(file: TAbstractFile, oldPath: string): void {
+		const records = this.files.get(oldPath);
+		if (!records || !(file instanceof TFile)) return;
+		this.remove(oldPath);
+		const date = this.dateFromPath(file.path);
+		this.setRecords(file.path, records.map(record => ({
+			...record,
+			path: file.path,
+			date: date ?? this.dueDateOf(record.task),
+		})));
+	}
+
+	handleDelete(file: TAbstractFile): void {
+		if (this.files.has(file.path)) this.remove(file.path);
+	}
+
+	/**
+	 * 用文件内容更新索引，插件自己写入文件后可立即调用，不必等待 metadataCache
+	 */
+	update(path: string, content: string): void {
+		const date = this.dateFromPath(path);
+		const previous = this.files.get(path) ?? [];
+		const records: TaskRecord[] = [];
+		let inFence = false;
+		content.split(/\r?\n/).forEach((line, lineNumber) => {
+			if (/^\s*```/.test(line)) {
+				inFence = !inFence;
+				return;
+			}
+			if (inFence) return;
+			const status = TaskFormatter.getLineStatus(line);
+			if (status === null) return;
+			const task = TaskFormatter.parseLineToTask(line);
+			records.push({
+				id: TaskFormatter.extractTaskId(line),
+				date: date ?? this.dueDateOf(task),
+				path,
+				lineNumber,
+				status,
+				line,
+				task,
+			});
+		});
+		this.removeIds(path);
+		this.setRecords(path, records);
+		this.emitStatusChanges(previous, records);
+	}
+
+	/**
+	 * 查询任务，按日期、路径、行号排序
+	 */
+	query(query: TaskQuery = {}): TaskRecord[] {
+		const source = query.id !== undefined
+			? this.byId.get(query.id) ?? []
+			: Array.from(this.files.values()).flat();
+		return source
+			.filter(record => this.matches(record, query))
+			.sort((a, b) => (a.date ?? '').localeCompare(b.date ?? '')
+				|| a.path.localeCompare(b.path)
+				|| a.lineNumber - b.lineNumber);
+	}
+
+	/**
+	 * 按 OmniFocus id 获取所有出现位置
+	 */
+	getById(id: string): TaskRecord[] {
+		return this.query({ id });
+	}
+
+	getFile(path: string): TaskRecord[] {
+		return this.files.get(path) ?? [];
+	}
+
+	/**
+	 * 重复任务在日期范围内的后续日期，不早于今天；同一 id 出现在多处时只取一次
+	 */
+	occurrences(from: string, to: string): TaskOccurrence[] {
+		const start = DailyNotes.parseDate(from);
+		const end = DailyNotes.parseDate(to);
+		if (!start || !end) return [];
+		const today = DailyNotes.parseDate(DailyNotes.formatDate(new Date())) as Date;
+		const rangeStart = start < today ? today : start;
+		const rangeEnd = new Date(end.getFullYear(), end.getMonth(), end.getDate(), 23, 59, 59);
+
+		const seen = new Set<string>();
+		const result: TaskOccurrence[] = [];
+		for (const record of this.query({ status: 'ongoing' })) {
+			if (!record.task?.repetitionRule) continue;
+			if (record.id) {
+				if (seen.has(record.id)) continue;
+				seen.add(record.id);
+			}
+			for (const time of Recurrence.occurrences(record.task, rangeStart, rangeEnd)) {
+				result.push({ record, date: DailyNotes.formatDate(time), time });
+			}
+		}
+		return result.sort((a, b) => a.time.getTime() - b.time.getTime());
+	}
+
+	/**
+	 * 监听索引变化，返回取消监听的函数
+	 */
+	onChange(listener: (path: string) => void): () => void {
+		this.listeners.add(listener);
+		return () => this.listeners.delete(listener);
+	}
+
+	/**
+	 * 监听任务状态变化（同一行从进行中变为完成等），返回取消监听的函数
+	 */
+	onStatusChange(listener: (record: TaskRecord, previous: TaskRecord) => void): () => void {
+		this.statusListeners.add(listener);
+		return () => this.statusListeners.delete(listener);
+	}
+
+	private matches(record: TaskRecord, query: TaskQuery): boolean {
+		if (query.status && record.status !== query.status) return false;
+		if (query.path && record.path !== query.path) return false;
+		if (query.tag && !record.task?.tags?.includes(query.tag)) return false;
+		if (query.project && record.task?.project !== query.project) return false;
+		if (query.from || query.to) {
+			if (!record.date) return false;
+			if (query.from && record.date < query.from) return false;
+			if (query.to && record.date > query.to) return false;
+		}
+		return true;
+	}
+
+	/**
+	 * 按行号对比更新前后的记录，名称相同而状态不同即为状态变化
+	 */
+	private emitStatusChanges(previous: TaskRecord[], records: TaskRecord[]): void {
+		if (previous.length === 0 || this.statusListeners.size === 0) return;
+		const byLine = new Map(previous.map(record => [record.lineNumber, record]));
+		for (const record of records) {
+			const old = byLine.get(record.lineNumber);
+			if (!old || old.status === record.status || old.task?.name !== record.task?.name) continue;
+			this.statusListeners.forEach(listener => listener(record, old));
+		}
+	}
+
+	private hasTasks(cache: CachedMetadata | null, path: string): boolean {
+		// 丢弃的任务以 ❌ 开头，不是列表项，每日笔记总是建立索引
+		if (this.dateFromPath(path)) return true;
+		return !!cache?.listItems?.some(item => item.task !== undefined);
+	}
+
+	private setRecords(path: string, records: TaskRecord[]): void {
+		if (records.length === 0) {
+			this.files.delete(path);
+		} else {
+			this.files.set(path, records);
+		}
+		for (const record of records) {
+			if (!record.id) continue;
+			const list = this.byId.get(record.id) ?? [];
+			list.push(record);
+			this.byId.set(record.id, list);
+		}
+		this.listeners.forEach(listener => listener(path));
+	}
+
+	private remove(path: string): void {
+		this.removeIds(path);
+		this.files.delete(path);
+		this.listeners.forEach(listener => listener(path));
+	}
+
+	private removeIds(path: string): void {
+		for (const record of this.files.get(path) ?? []) {
+			if (!record.id) continue;
+			const remaining = (this.byId.get(record.id) ?? []).filter(item => item.path !== path);
+			if (remaining.length > 0) this.byId.set(record.id, remaining);
+			else this.byId.delete(record.id);
+		}
+	}
+
+	private dateFromPath(path: string): string | null {
+		const basename = path.split('/').pop()?.replace(/\.md$/, '') ?? '';
+		return DailyNotes.parseDate(basename) ? basename : null;
+	}
+
+	private dueDateOf(task: Task | null): string | null {
+		if (!task?.dueDate) return null;
+		const due = new Date(task.dueDate);
+		return isNaN(due.getTime()) ? null : DailyNotes.formatDate(due);
+	}
+}
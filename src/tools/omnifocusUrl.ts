@@ -0,0 +1,13 @@
+// OmniFocus 端插件的标识
+export const OMNIFOCUS_PLUGIN_ID = 'com.pazer.omnifocus.gtdplugin';
+
+/**
+ * 生成调用 OmniFocus 插件动作的 omnijs-run URL
+ * @param action 插件动作名称，例如 syncTodayTasks
+ * @param argument 传给动作的参数，会被序列化为 JSON
+ */
+export function buildPluginActionUrl(action: string, argument: unknown): string {
+	const script = `PlugIn.find(%22${OMNIFOCUS_PLUGIN_ID}%22).action(%22${action}%22).perform(argument)`;
+	const arg = encodeURIComponent(JSON.stringify(argument));
+	return `omnifocus://localhost/omnijs-run?script=${script}&arg=${arg}`;
+}
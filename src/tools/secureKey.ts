@@ -1,30 +1,125 @@
 import * as crypto from 'crypto';
 
-const STATIC_SECRET = "mFIjJ8F7TuN0bil3q5mW7dABg6qCSZ"; // 请替换为实际的密钥
+// 签名请求允许的时间偏差（秒）
+export const SIGNATURE_MAX_SKEW = 300;
 
 /**
- * 生成带时效性的密钥
+ * 生成每个库独立的随机密钥
+ * @returns 64 位十六进制字符串
+ */
+export function generateSecret(): string {
+	return crypto.randomBytes(32).toString('hex');
+}
+
+/**
+ * 常量时间比较两个十六进制签名，避免时序攻击
+ */
+function safeEqual(expected: string, actual: string): boolean {
+	const expectedBuf = Buffer.from(expected, 'utf8');
+	const actualBuf = Buffer.from(actual, 'utf8');
+	if (expectedBuf.length !== actualBuf.length) {
+		// 长度不同也执行一次比较，保持耗时一致
+		crypto.timingSafeEqual(expectedBuf, expectedBuf);
+		return false;
+	}
+	return crypto.timingSafeEqual(expectedBuf, actualBuf);
+}
+
+/**
+ * 生成带时效性的密钥，用于通过 URL 交给 OmniFocus 插件回传
+ * @param secret 库密钥
  * @param expiresIn 有效期（秒）
+ * @param scope 密钥的使用范围，例如某个同步任务的接口路径，校验时必须相同
  * @returns { expires, token }
  */
-export function generateSecureKey(expiresIn = 300) {
+export function generateSecureKey(secret: string, expiresIn = 300, scope = '') {
 	const now = Math.floor(Date.now() / 1000);
 	const expires = now + expiresIn;
-	const data = `${expires}`;
-	const token = crypto.createHmac('sha256', STATIC_SECRET).update(data).digest('hex');
+	const data = scope ? `${expires}\n${scope}` : `${expires}`;
+	const token = crypto.createHmac('sha256', secret).update(data).digest('hex');
 	return { expires, token };
 }
 
 /**
  * 校验密钥
+ * @param secret 库密钥
  * @param expires 时间戳（秒）
  * @param token 待校验token
+ * @param scope 生成密钥时的使用范围
  * @returns boolean
  */
-export function verifySecureKey(expires: number, token: string): boolean {
+export function verifySecureKey(secret: string, expires: number, token: string, scope = ''): boolean {
 	const now = Math.floor(Date.now() / 1000);
-	if (now > expires) return false;
-	const data = `${expires}`;
-	const expected = crypto.createHmac('sha256', STATIC_SECRET).update(data).digest('hex');
-	return expected === token;
+	if (!Number.isFinite(expires) || now > expires) return false;
+	const data = scope ? `${expires}\n${scope}` : `${expires}`;
+	const expected = crypto.createHmac('sha256', secret).update(data).digest('hex');
+	return safeEqual(expected, token);
+}
+
+/**
+ * obsidian:// 动作使用的 key，由库密钥派生
+ * 这个 key 会出现在快捷指令等的 URL 中，不能用它签名 HTTP 请求或反推出库密钥；重新生成库密钥后随之改变
+ */
+export function deriveProtocolKey(secret: string): string {
+	return crypto.createHmac('sha256', secret).update('protocol').digest('hex').slice(0, 32);
+}
+
+/**
+ * 校验 obsidian:// 动作中的 key 参数
+ */
+export function verifyProtocolKey(secret: string, key: string): boolean {
+	return !!secret && safeEqual(deriveProtocolKey(secret), key);
+}
+
+/**
+ * 对请求签名：HMAC-SHA256(secret, "timestamp\nMETHOD\npath\nbody")
+ * @param timestamp 请求时间戳（秒）
+ */
+export function signRequest(secret: string, timestamp: number, method: string, path: string, body: string): string {
+	const data = `${timestamp}\n${method.toUpperCase()}\n${path}\n${body}`;
+	return crypto.createHmac('sha256', secret).update(data).digest('hex');
+}
+
+/**
+ * 校验请求签名和时间戳
+ */
+export function verifyRequestSignature(
+	secret: string,
+	timestamp: number,
+	method: string,
+	path: string,
+	body: string,
+	signature: string
+): boolean {
+	const now = Math.floor(Date.now() / 1000);
+	if (!Number.isFinite(timestamp) || Math.abs(now - timestamp) > SIGNATURE_MAX_SKEW) return false;
+	return safeEqual(signRequest(secret, timestamp, method, path, body), signature);
+}
+
+/**
+ * 重放保护：记录时间窗口内已使用过的签名
+ */
+export class ReplayGuard {
+	private seen: Map<string, number> = new Map();
+
+	/**
+	 * 登记签名，已使用过返回 false
+	 * @param timestamp 请求时间戳（秒），超过时间窗口后签名自然失效，可以从记录中移除
+	 */
+	register(signature: string, timestamp: number): boolean {
+		const now = Math.floor(Date.now() / 1000);
+		for (const [key, expiresAt] of this.seen) {
+			if (expiresAt < now) this.seen.delete(key);
+		}
+		if (this.seen.has(signature)) return false;
+		this.seen.set(signature, timestamp + SIGNATURE_MAX_SKEW);
+		return true;
+	}
+
+	/**
+	 * 密钥轮换后清空记录
+	 */
+	clear(): void {
+		this.seen.clear();
+	}
 }
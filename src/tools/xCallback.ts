@@ -0,0 +1,19 @@
+// 回调地址必须是带协议的 URL
+const CALLBACK_PATTERN = /^([a-z][a-z0-9+.-]*):/i;
+// 允许的回调协议：常用的自动化工具，不包括网页和脚本协议，避免任务名称和 id 被发往任意地址
+export const CALLBACK_SCHEMES = ['shortcuts', 'obsidian', 'omnifocus', 'alfred', 'raycast', 'drafts', 'kmtrigger'];
+
+/**
+ * 在 x-callback-url 的回调地址后追加参数
+ * @returns 回调地址不合法或协议不在 CALLBACK_SCHEMES 中时返回 null
+ */
+export function buildCallbackUrl(callback: string | undefined, params: Record<string, string | number>): string | null {
+	const base = callback?.trim();
+	const scheme = base?.match(CALLBACK_PATTERN)?.[1].toLowerCase();
+	if (!base || !scheme || !CALLBACK_SCHEMES.includes(scheme)) return null;
+	const query = Object.entries(params)
+		.map(([key, value]) => `${encodeURIComponent(key)}=${encodeURIComponent(String(value))}`)
+		.join('&');
+	if (!query) return base;
+	return `${base}${base.includes('?') ? '&' : '?'}${query}`;
+}
@@ -0,0 +1,75 @@
+import { App, TFile, TFolder } from 'obsidian';
+
+/**
+ * 日期字符串格式 yyyy-mm-dd
+ */
+export const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+/**
+ * 每日笔记条目
+ */
+export interface DailyNoteEntry {
+    date: string;
+    file: TFile;
+}
+
+/**
+ * 每日笔记工具类
+ * 统一处理 yyyy-mm-dd.md 文件的路径和日期换算
+ */
+export class DailyNotes {
+    /**
+     * 格式化日期为 yyyy-mm-dd（本地时间）
+     */
+    static formatDate(date: Date): string {
+        const pad = (n: number) => n.toString().padStart(2, '0');
+        return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`;
+    }
+
+    /**
+     * 解析 yyyy-mm-dd 为本地零点的日期，格式不正确时返回 null
+     * 注意：new Date('yyyy-mm-dd') 会按 UTC 解析，在负时区会偏移一天
+     */
+    static parseDate(value: string): Date | null {
+        if (!value || !DATE_PATTERN.test(value)) return null;
+        const [year, month, day] = value.split('-').map(part => parseInt(part, 10));
+        const date = new Date(year, month - 1, day);
+        if (date.getFullYear() !== year || date.getMonth() !== month - 1 || date.getDate() !== day) {
+            return null;
+        }
+        return date;
+    }
+
+    /**
+     * 在日期字符串上增加天数
+     */
+    static addDays(value: string, days: number): string {
+        const date = this.parseDate(value);
+        if (!date) return value;
+        date.setDate(date.getDate() + days);
+        return this.formatDate(date);
+    }
+
+    /**
+     * 获取某一天的笔记路径
+     */
+    static getPath(savePath: string, date: string): string {
+        return `${savePath}/${date.trim()}.md`;
+    }
+
+    /**
+     * 列出保存目录下所有每日笔记，按日期升序
+     */
+    static list(app: App, savePath: string): DailyNoteEntry[] {
+        const folder = app.vault.getAbstractFileByPath(savePath);
+        if (!(folder instanceof TFolder)) return [];
+
+        const entries: DailyNoteEntry[] = [];
+        for (const child of folder.children) {
+            if (child instanceof TFile && child.extension === 'md' && this.parseDate(child.basename)) {
+                entries.push({ date: child.basename, file: child });
+            }
+        }
+        return entries.sort((a, b) => a.date.localeCompare(b.date));
+    }
+}
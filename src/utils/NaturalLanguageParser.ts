@@ -0,0 +1,694 @@
+/**
+ * 匹配到的一段文字
+ */
+export interface NaturalMatch {
+    type: 'date' | 'time' | 'range' | 'duration' | 'recurrence';
+    start: number;
+    end: number;
+    text: string;
+    confidence: number;
+}
+
+/**
+ * 自然语言解析结果
+ */
+export interface NaturalParseResult {
+    // 日期（零点），只提到时间时为参考日期
+    date: Date;
+    // 提到了日期（而不是默认的参考日期）
+    hasDate: boolean;
+    startTime?: Date;
+    endTime?: Date;
+    // 持续时间（分钟）
+    duration?: number;
+    // RRULE，例如 FREQ=WEEKLY;BYDAY=MO,WE
+    recurrence?: string;
+    // 0-1，含义明确的写法（10月25日、下午3点）高，可能有歧义的写法（sat、3点）低
+    confidence: number;
+    // 从第一段到最后一段匹配的范围
+    span: { start: number; end: number; text: string };
+    matches: NaturalMatch[];
+    // 去掉匹配部分后的文字，可以作为任务名
+    remainder: string;
+}
+
+/**
+ * 一条规则解析出的部分结果
+ */
+interface Fragment {
+    date?: Date;
+    time?: { hour: number; minute: number };
+    endTime?: { hour: number; minute: number };
+    // 相对现在的时刻，例如 30分钟后
+    dateTime?: Date;
+    duration?: number;
+    recurrence?: string;
+    // 重复规则的第一次发生日期
+    firstDate?: Date;
+}
+
+interface Rule {
+    type: NaturalMatch['type'];
+    pattern: RegExp;
+    confidence: number | ((match: RegExpExecArray) => number);
+    parse: (match: RegExpExecArray, reference: Date) => Fragment | null;
+}
+
+interface Candidate {
+    match: NaturalMatch;
+    fragment: Fragment;
+}
+
+const CN_NUM = '[0-9零〇一二两三四五六七八九十]{1,3}';
+const CN_PERIOD = '早上|早晨|上午|中午|下午|傍晚|晚上|今晚|凌晨';
+const CN_WEEKDAY = '[一二三四五六日天1-7]';
+const EN_WEEKDAY = 'monday|mon|tuesday|tues|tue|wednesday|wed|thursday|thurs|thu|friday|fri|saturday|sat|sunday|sun';
+const EN_MONTH = 'january|jan|february|feb|march|mar|april|apr|may|june|jun|july|jul|august|aug|september|sept|sep|october|oct|november|nov|december|dec';
+const EN_NUMBER: Record<string, number> = { a: 1, an: 1, one: 1, two: 2, three: 3, four: 4, five: 5, six: 6, seven: 7, eight: 8, nine: 9, ten: 10 };
+const RRULE_DAYS = ['SU', 'MO', 'TU', 'WE', 'TH', 'FR', 'SA'];
+// 匹配之间允许出现的连接词
+const CONNECTOR = /^[\s,，、]*(?:at|on|from|@|在|于|的)?[\s,，、]*$/i;
+
+/**
+ * 中英文自然语言日期时间解析
+ *
+ * 支持日期（tomorrow、next Friday、10/25、下周三、10月25日、3天后）、时间（9am、15:30、下午3点半）、
+ * 时间段（2-4pm、从9点到11点）、时长（for 2h、1个半小时）和重复（every Monday、每周一三五、每月15号）。
+ * 周按周一开始计算，"next Friday"、"下周五" 是下一周的周五，单独的 "Friday"、"周五" 是接下来最近的周五（包括今天）。
+ */
+export class NaturalLanguageParser {
+    private static rules: Rule[] = [
+        // ---------- 重复 ----------
+        {
+            type: 'recurrence',
+            pattern: /\b(daily|weekly|monthly|yearly|annually|biweekly|every\s+weekday|every\s+weekend)\b/gi,
+            confidence: 0.9,
+            parse: (m) => {
+                const word = m[1].toLowerCase().replace(/\s+/g, ' ');
+                const rules: Record<string, string> = {
+                    daily: 'FREQ=DAILY',
+                    weekly: 'FREQ=WEEKLY',
+                    monthly: 'FREQ=MONTHLY',
+                    yearly: 'FREQ=YEARLY',
+                    annually: 'FREQ=YEARLY',
+                    biweekly: 'FREQ=WEEKLY;INTERVAL=2',
+                    'every weekday': 'FREQ=WEEKLY;BYDAY=MO,TU,WE,TH,FR',
+                    'every weekend': 'FREQ=WEEKLY;BYDAY=SA,SU',
+                };
+                return NaturalLanguageParser.recurrence(rules[word]);
+            },
+        },
+        {
+            type: 'recurrence',
+            pattern: /\bevery\s+(?:(other)\s+|(\d+|two|three|four|five|six)\s+)?(day|week|month|year)s?\b/gi,
+            confidence: 0.9,
+            parse: (m) => {
+                const interval = m[1] ? 2 : m[2] ? NaturalLanguageParser.parseNumber(m[2]) ?? 1 : 1;
+                const freq = { day: 'DAILY', week: 'WEEKLY', month: 'MONTHLY', year: 'YEARLY' }[m[3].toLowerCase() as 'day'];
+                return NaturalLanguageParser.recurrence(`FREQ=${freq}${interval > 1 ? `;INTERVAL=${interval}` : ''}`);
+            },
+        },
+        {
+            type: 'recurrence',
+            pattern: new RegExp(`\\bevery\\s+((?:${EN_WEEKDAY})(?:\\s*(?:,|and|&)\\s*(?:${EN_WEEKDAY}))*)\\b`, 'gi'),
+            confidence: 0.9,
+            parse: (m, ref) => {
+                const days = m[1].split(/\s*(?:,|and|&)\s*/i).map(day => NaturalLanguageParser.englishWeekday(day));
+                return NaturalLanguageParser.weeklyRecurrence(days, 1, ref);
+            },
+        },
+        {
+            type: 'recurrence',
+            pattern: /\bevery\s+month\s+on\s+the\s+(\d{1,2})(?:st|nd|rd|th)?\b/gi,
+            confidence: 0.9,
+            parse: (m, ref) => NaturalLanguageParser.monthlyRecurrence(parseInt(m[1], 10), ref),
+        },
+        {
+            type: 'recurrence',
+            pattern: /每个?工作日/g,
+            confidence: 0.95,
+            parse: () => NaturalLanguageParser.recurrence('FREQ=WEEKLY;BYDAY=MO,TU,WE,TH,FR'),
+        },
+        {
+            type: 'recurrence',
+            pattern: new RegExp(`每(隔)?(${CN_NUM})?个?(天|日|周|星期|礼拜|月|年)`, 'g'),
+            confidence: 0.9,
+            parse: (m) => {
+                const count = m[2] ? NaturalLanguageParser.parseNumber(m[2]) ?? 1 : 1;
+                // 每隔一天即隔一天一次
+                const interval = m[1] ? count + 1 : count;
+                const freq = { 天: 'DAILY', 日: 'DAILY', 周: 'WEEKLY', 星期: 'WEEKLY', 礼拜: 'WEEKLY', 月: 'MONTHLY', 年: 'YEARLY' }[m[3] as '天'];
+                return NaturalLanguageParser.recurrence(`FREQ=${freq}${interval > 1 ? `;INTERVAL=${interval}` : ''}`);
+            },
+        },
+        {
+            type: 'recurrence',
+            pattern: new RegExp(`每(?:个)?(?:周|星期|礼拜)(${CN_WEEKDAY}(?:[、,，和]?${CN_WEEKDAY})*)`, 'g'),
+            confidence: 0.95,
+            parse: (m, ref) => {
+                const days = m[1].replace(/[、,，和]/g, '').split('').map(day => NaturalLanguageParser.chineseWeekday(day));
+                return NaturalLanguageParser.weeklyRecurrence(days, 1, ref);
+            },
+        },
+        {
+            type: 'recurrence',
+            pattern: new RegExp(`每个?月(${CN_NUM})[日号]`, 'g'),
+            confidence: 0.95,
+            parse: (m, ref) => {
+                const day = NaturalLanguageParser.parseNumber(m[1]);
+                return day ? NaturalLanguageParser.monthlyRecurrence(day, ref) : null;
+            },
+        },
+
+        // ---------- 时间段 ----------
+        {
+            type: 'range',
+            pattern: /\b(?:from\s+)?(\d{1,2})(?::(\d{2}))?\s*(am|pm)?\s*(?:-|–|~|to|until|till)\s*(\d{1,2})(?::(\d{2}))?\s*(am|pm)\b/gi,
+            confidence: 0.9,
+            parse: (m) => {
+                const endHour = NaturalLanguageParser.meridiem(parseInt(m[4], 10), m[6]);
+                let startHour = parseInt(m[1], 10);
+                if (m[3]) {
+                    startHour = NaturalLanguageParser.meridiem(startHour, m[3]);
+                } else if (m[6].toLowerCase() === 'pm' && startHour < 12 && startHour + 12 <= endHour) {
+                    // 2-4pm：开始时间沿用结束时间的下午
+                    startHour += 12;
+                }
+                return NaturalLanguageParser.range(startHour, parseInt(m[2] ?? '0', 10), endHour, parseInt(m[5] ?? '0', 10));
+            },
+        },
+        {
+            type: 'range',
+            pattern: /(?<![\d:])(\d{1,2}):(\d{2})\s*(?:-|–|~|to|until|till|到|至)\s*(\d{1,2}):(\d{2})(?![\d:])/gi,
+            confidence: 0.9,
+            parse: (m) => NaturalLanguageParser.range(parseInt(m[1], 10), parseInt(m[2], 10), parseInt(m[3], 10), parseInt(m[4], 10)),
+        },
+        {
+            type: 'range',
+            pattern: new RegExp(`从?(${CN_PERIOD})?(${CN_NUM})[点时](?:(${CN_NUM})分?|(半))?\\s*(?:到|至|-|~|—)\\s*(${CN_PERIOD})?(${CN_NUM})[点时](?:(${CN_NUM})分?|(半))?`, 'g'),
+            confidence: 0.9,
+            parse: (m) => {
+                const start = NaturalLanguageParser.chineseTime(m[1], m[2], m[3], m[4]);
+                // 结束时间没有写时段时沿用开始时间的时段
+                const end = NaturalLanguageParser.chineseTime(m[5] ?? m[1], m[6], m[7], m[8]);
+                return start && end ? NaturalLanguageParser.range(start.hour, start.minute, end.hour, end.minute) : null;
+            },
+        },
+
+        // ---------- 时间 ----------
+        {
+            type: 'time',
+            pattern: /\b(?:at\s+)?(\d{1,2})(?::(\d{2}))?\s*(am|pm|a\.m\.|p\.m\.)(?=\W|$)/gi,
+            confidence: 0.9,
+            parse: (m) => NaturalLanguageParser.time(NaturalLanguageParser.meridiem(parseInt(m[1], 10), m[3]), parseInt(m[2] ?? '0', 10)),
+        },
+        {
+            type: 'time',
+            pattern: new RegExp(`(?:\\bat\\s+|(${CN_PERIOD}))?(?<![\\d:/])(\\d{1,2}):(\\d{2})(?![\\d:])`, 'gi'),
+            confidence: 0.9,
+            parse: (m) => NaturalLanguageParser.time(NaturalLanguageParser.adjustPeriod(parseInt(m[2], 10), m[1]), parseInt(m[3], 10)),
+        },
+        {
+            type: 'time',
+            pattern: /\b(?:at\s+)?(noon|midnight)\b/gi,
+            confidence: 0.9,
+            parse: (m) => NaturalLanguageParser.time(m[1].toLowerCase() === 'noon' ? 12 : 0, 0),
+        },
+        {
+            type: 'time',
+            pattern: /\bat\s+(\d{1,2})\b(?!\s*(?:[:/.]|days?|weeks?|months?|hours?|minutes?))/gi,
+            confidence: 0.6,
+            parse: (m) => {
+                // "at 5" 通常指下午
+                const hour = parseInt(m[1], 10);
+                return NaturalLanguageParser.time(hour >= 1 && hour <= 6 ? hour + 12 : hour, 0);
+            },
+        },
+        {
+            type: 'time',
+            pattern: new RegExp(`(${CN_PERIOD})?(${CN_NUM})[点时](?:(${CN_NUM})分?|(半)|(一刻)|(三刻))?`, 'g'),
+            confidence: (m) => m[1] ? 0.9 : 0.75,
+            parse: (m) => {
+                const time = NaturalLanguageParser.chineseTime(m[1], m[2], m[3], m[4] ?? (m[5] ? '一刻' : m[6] ? '三刻' : undefined));
+                return time ? { time } : null;
+            },
+        },
+        {
+            type: 'time',
+            pattern: /\bin\s+(\d+|a|an|one|two|three|four|five|six|seven|eight|nine|ten)\s+(minutes?|mins?|hours?|hrs?)\b/gi,
+            confidence: 0.9,
+            parse: (m, ref) => {
+                const amount = NaturalLanguageParser.parseNumber(m[1]) ?? 1;
+                const minutes = /^h/i.test(m[2]) ? amount * 60 : amount;
+                return { dateTime: new Date(ref.getTime() + minutes * 60 * 1000) };
+            },
+        },
+        {
+            type: 'time',
+            pattern: new RegExp(`(${CN_NUM}|半)个?(半)?(分钟|小时)(?:以|之)?后`, 'g'),
+            confidence: 0.9,
+            parse: (m, ref) => {
+                const amount = (m[1] === '半' ? 0.5 : NaturalLanguageParser.parseNumber(m[1]) ?? 1) + (m[2] ? 0.5 : 0);
+                const minutes = m[3] === '小时' ? amount * 60 : amount;
+                return { dateTime: new Date(ref.getTime() + minutes * 60 * 1000) };
+            },
+        },
+
+        // ---------- 日期 ----------
+        {
+            type: 'date',
+            pattern: /\b(today|tonight|tomorrow|tmrw|tmr|yesterday|day\s+after\s+tomorrow)\b/gi,
+            confidence: 0.9,
+            parse: (m, ref) => {
+                const word = m[1].toLowerCase().replace(/\s+/g, ' ');
+                const offset: Record<string, number> = { today: 0, tonight: 0, tomorrow: 1, tmrw: 1, tmr: 1, yesterday: -1, 'day after tomorrow': 2 };
+                return { date: NaturalLanguageParser.addDays(ref, offset[word]) };
+            },
+        },
+        {
+            type: 'date',
+            pattern: /(大后天|后天|明天|明日|明早|明晚|今天|今日|今晚|昨天|前天)/g,
+            confidence: 0.9,
+            parse: (m, ref) => {
+                const offset: Record<string, number> = { 大后天: 3, 后天: 2, 明天: 1, 明日: 1, 明早: 1, 明晚: 1, 今天: 0, 今日: 0, 今晚: 0, 昨天: -1, 前天: -2 };
+                return { date: NaturalLanguageParser.addDays(ref, offset[m[1]]) };
+            },
+        },
+        {
+            type: 'date',
+            pattern: new RegExp(`\\b(?:(next|this|last|coming)\\s+)?(${EN_WEEKDAY})\\b`, 'gi'),
+            // 缩写 sat、sun 也是普通单词
+            confidence: (m) => m[1] ? 0.85 : /^(sat|sun|wed)$/i.test(m[2]) ? 0.5 : 0.75,
+            parse: (m, ref) => {
+                const weekday = NaturalLanguageParser.englishWeekday(m[2]);
+                const modifier = m[1]?.toLowerCase();
+                if (!modifier || modifier === 'coming') return { date: NaturalLanguageParser.upcomingWeekday(ref, weekday) };
+                const offset = modifier === 'next' ? 7 : modifier === 'last' ? -7 : 0;
+                return { date: NaturalLanguageParser.addDays(NaturalLanguageParser.weekdayOfWeek(ref, weekday), offset) };
+            },
+        },
+        {
+            type: 'date',
+            pattern: new RegExp(`(这|本|下下|下|上)?个?(?:周|星期|礼拜)(${CN_WEEKDAY})`, 'g'),
+            confidence: (m) => m[1] ? 0.9 : 0.8,
+            parse: (m, ref) => {
+                const weekday = NaturalLanguageParser.chineseWeekday(m[2]);
+                if (!m[1]) return { date: NaturalLanguageParser.upcomingWeekday(ref, weekday) };
+                const offset = { 这: 0, 本: 0, 下: 7, 下下: 14, 上: -7 }[m[1] as '这'];
+                return { date: NaturalLanguageParser.addDays(NaturalLanguageParser.weekdayOfWeek(ref, weekday), offset) };
+            },
+        },
+        {
+            type: 'date',
+            pattern: /\b(next|this)\s+(week|month|year)\b|(下周|下个?星期|下个?月|明年)(?!\s*[一二三四五六日天1-7])/gi,
+            confidence: 0.7,
+            parse: (m, ref) => {
+                const unit = m[2]?.toLowerCase() ?? ({ 下周: 'week', 下星期: 'week', 下个星期: 'week', 下月: 'month', 下个月: 'month', 明年: 'year' } as Record<string, string>)[m[3]];
+                const amount = m[1]?.toLowerCase() === 'this' ? 0 : 1;
+                if (unit === 'week') return { date: NaturalLanguageParser.addDays(NaturalLanguageParser.weekdayOfWeek(ref, 1), amount * 7) };
+                if (unit === 'month') return { date: new Date(ref.getFullYear(), ref.getMonth() + amount, 1) };
+                return { date: new Date(ref.getFullYear() + amount, 0, 1) };
+            },
+        },
+        {
+            type: 'date',
+            pattern: /\bin\s+(\d+|a|an|one|two|three|four|five|six|seven|eight|nine|ten)\s+(days?|weeks?|months?|years?)\b/gi,
+            confidence: 0.85,
+            parse: (m, ref) => NaturalLanguageParser.relativeDate(ref, NaturalLanguageParser.parseNumber(m[1]) ?? 1, m[2].toLowerCase()[0]),
+        },
+        {
+            type: 'date',
+            pattern: new RegExp(`(${CN_NUM})(?:个)?(天|周|星期|月|年)(?:以|之)?后`, 'g'),
+            confidence: 0.85,
+            parse: (m, ref) => {
+                const unit = { 天: 'd', 周: 'w', 星期: 'w', 月: 'm', 年: 'y' }[m[2] as '天'];
+                return NaturalLanguageParser.relativeDate(ref, NaturalLanguageParser.parseNumber(m[1]) ?? 1, unit);
+            },
+        },
+        {
+            type: 'date',
+            pattern: /\b(\d{4})[-/.](\d{1,2})[-/.](\d{1,2})\b/g,
+            confidence: 0.95,
+            parse: (m) => NaturalLanguageParser.absoluteDate(parseInt(m[1], 10), parseInt(m[2], 10), parseInt(m[3], 10)),
+        },
+        {
+            type: 'date',
+            pattern: /(?<![\d/.-])(\d{1,2})\/(\d{1,2})(?:\/(\d{4}|\d{2}))?(?![\d/])/g,
+            confidence: 0.8,
+            parse: (m, ref) => {
+                const year = m[3] ? (m[3].length === 2 ? 2000 + parseInt(m[3], 10) : parseInt(m[3], 10)) : undefined;
+                return NaturalLanguageParser.absoluteDate(year, parseInt(m[1], 10), parseInt(m[2], 10), ref);
+            },
+        },
+        {
+            type: 'date',
+            pattern: new RegExp(`\\b(${EN_MONTH})\\.?\\s+(\\d{1,2})(?:st|nd|rd|th)?(?:,?\\s+(\\d{4}))?\\b|\\b(\\d{1,2})(?:st|nd|rd|th)?\\s+(${EN_MONTH})\\.?(?:,?\\s+(\\d{4}))?\\b`, 'gi'),
+            confidence: 0.9,
+            parse: (m, ref) => {
+                const month = NaturalLanguageParser.englishMonth(m[1] ?? m[5]);
+                const day = parseInt(m[2] ?? m[4], 10);
+                const year = m[3] ?? m[6];
+                return NaturalLanguageParser.absoluteDate(year ? parseInt(year, 10) : undefined, month, day, ref);
+            },
+        },
+        {
+            type: 'date',
+            pattern: new RegExp(`(?:(\\d{4})年)?(${CN_NUM})月(${CN_NUM})[日号]?`, 'g'),
+            confidence: 0.9,
+            parse: (m, ref) => {
+                const month = NaturalLanguageParser.parseNumber(m[2]);
+                const day = NaturalLanguageParser.parseNumber(m[3]);
+                if (!month || !day) return null;
+                return NaturalLanguageParser.absoluteDate(m[1] ? parseInt(m[1], 10) : undefined, month, day, ref);
+            },
+        },
+        {
+            type: 'date',
+            pattern: new RegExp(`(?<![月\\d])(${CN_NUM})[日号]`, 'g'),
+            confidence: 0.7,
+            parse: (m, ref) => {
+                const day = NaturalLanguageParser.parseNumber(m[1]);
+                if (!day || day > 31) return null;
+                // 这个月的这一天已经过去时指下个月
+                let date = new Date(ref.getFullYear(), ref.getMonth(), day);
+                if (date < NaturalLanguageParser.startOfDay(ref)) date = new Date(ref.getFullYear(), ref.getMonth() + 1, day);
+                return date.getDate() === day ? { date } : null;
+            },
+        },
+
+        // ---------- 时长 ----------
+        {
+            type: 'duration',
+            pattern: /\bfor\s+(\d+(?:\.\d+)?|a|an|one|two|three|half\s+an?)\s*(hours?|hrs?|h|minutes?|mins?|m)\b/gi,
+            confidence: 0.85,
+            parse: (m) => {
+                const amount = /^half/i.test(m[1]) ? 0.5 : NaturalLanguageParser.parseNumber(m[1]) ?? parseFloat(m[1]);
+                return { duration: Math.round(/^h/i.test(m[2]) ? amount * 60 : amount) };
+            },
+        },
+        {
+            type: 'duration',
+            pattern: new RegExp(`(?:持续|用时|花)?(?:(${CN_NUM})个?(半)?|(半))(小时|分钟)(?![以之]?后)`, 'g'),
+            confidence: 0.8,
+            parse: (m) => {
+                const amount = m[3] ? 0.5 : (NaturalLanguageParser.parseNumber(m[1]) ?? 0) + (m[2] ? 0.5 : 0);
+                return amount > 0 ? { duration: Math.round(m[4] === '小时' ? amount * 60 : amount) } : null;
+            },
+        },
+    ];
+
+    /**
+     * 解析文字中的日期、时间和重复规则，没有找到时返回 null
+     * @param reference 参考时刻，相对日期和相对时间以它为准
+     */
+    static parse(text: string, reference: Date = new Date()): NaturalParseResult | null {
+        const candidates = this.findCandidates(text, reference);
+        const selected = this.selectCandidates(text, candidates);
+        if (selected.length === 0) return null;
+
+        const merged: Fragment = {};
+        for (const { fragment } of selected) {
+            for (const [key, value] of Object.entries(fragment)) {
+                if (value !== undefined && merged[key as keyof Fragment] === undefined) {
+                    Object.assign(merged, { [key]: value });
+                }
+            }
+        }
+
+        const explicitDate = merged.date ?? (merged.dateTime ? this.startOfDay(merged.dateTime) : undefined) ?? merged.firstDate;
+        const date = this.startOfDay(explicitDate ?? reference);
+        let startTime = merged.dateTime;
+        if (!startTime && merged.time) {
+            startTime = new Date(date.getFullYear(), date.getMonth(), date.getDate(), merged.time.hour, merged.time.minute);
+        }
+        let endTime: Date | undefined;
+        let duration = merged.duration;
+        if (startTime && merged.endTime) {
+            endTime = new Date(date.getFullYear(), date.getMonth(), date.getDate(), merged.endTime.hour, merged.endTime.minute);
+            // 跨夜的时间段
+            if (endTime <= startTime) endTime = this.addDays(endTime, 1);
+            duration = Math.round((endTime.getTime() - startTime.getTime()) / 60000);
+        } else if (startTime && duration) {
+            endTime = new Date(startTime.getTime() + duration * 60000);
+        }
+
+        const matches = selected.map(candidate => candidate.match).sort((a, b) => a.start - b.start);
+        const spanStart = matches[0].start;
+        const spanEnd = matches[matches.length - 1].end;
+        const average = matches.reduce((sum, match) => sum + match.confidence, 0) / matches.length;
+
+        return {
+            date,
+            hasDate: explicitDate !== undefined,
+            startTime,
+            endTime,
+            duration,
+            recurrence: merged.recurrence,
+            // 多段互相印证时更可信
+            confidence: Math.min(0.99, Math.round((average + 0.05 * (matches.length - 1)) * 100) / 100),
+            span: { start: spanStart, end: spanEnd, text: text.slice(spanStart, spanEnd) },
+            matches,
+            remainder: this.removeMatches(text, matches),
+        };
+    }
+
+    /**
+     * 用所有规则匹配文字
+     */
+    private static findCandidates(text: string, reference: Date): Candidate[] {
+        const candidates: Candidate[] = [];
+        for (const rule of this.rules) {
+            rule.pattern.lastIndex = 0;
+            let match: RegExpExecArray | null;
+            while ((match = rule.pattern.exec(text)) !== null) {
+                if (match[0].length === 0) {
+                    rule.pattern.lastIndex++;
+                    continue;
+                }
+                const fragment = rule.parse(match, reference);
+                if (!fragment) continue;
+                candidates.push({
+                    fragment,
+                    match: {
+                        type: rule.type,
+                        start: match.index,
+                        end: match.index + match[0].length,
+                        text: match[0],
+                        confidence: typeof rule.confidence === 'number' ? rule.confidence : rule.confidence(match),
+                    },
+                });
+            }
+        }
+        return candidates;
+    }
+
+    /**
+     * 优先选择更长、更可信的匹配，匹配之间不能重叠，每类只取一个，时间和时间段互斥
+     */
+    private static selectCandidates(text: string, candidates: Candidate[]): Candidate[] {
+        const sorted = [...candidates].sort((a, b) =>
+            (b.match.end - b.match.start) - (a.match.end - a.match.start)
+            || b.match.confidence - a.match.confidence
+            || a.match.start - b.match.start);
+        const selected: Candidate[] = [];
+        const slot = (type: NaturalMatch['type']) => type === 'range' ? 'time' : type;
+        for (const candidate of sorted) {
+            const { match } = candidate;
+            if (selected.some(item => slot(item.match.type) === slot(match.type))) continue;
+            if (selected.some(item => match.start < item.match.end && item.match.start < match.end)) continue;
+            selected.push(candidate);
+        }
+
+        // 只保留与第一段（最长）相邻的匹配，避免把句子中不相干的数字当成时间
+        if (selected.length <= 1) return selected;
+        const cluster = [selected[0]];
+        let changed = true;
+        while (changed) {
+            changed = false;
+            for (const candidate of selected) {
+                if (cluster.includes(candidate)) continue;
+                if (cluster.some(item => this.isAdjacent(text, item.match, candidate.match))) {
+                    cluster.push(candidate);
+                    changed = true;
+                }
+            }
+        }
+        return cluster;
+    }
+
+    /**
+     * 两段匹配之间只有空白或连接词
+     */
+    private static isAdjacent(text: string, a: NaturalMatch, b: NaturalMatch): boolean {
+        const [first, second] = a.start < b.start ? [a, b] : [b, a];
+        if (second.start < first.end) return false;
+        return CONNECTOR.test(text.slice(first.end, second.start));
+    }
+
+    /**
+     * 去掉匹配到的文字和多余的连接词、空白
+     */
+    private static removeMatches(text: string, matches: NaturalMatch[]): string {
+        let result = text;
+        for (const match of [...matches].sort((a, b) => b.start - a.start)) {
+            result = result.slice(0, match.start) + ' ' + result.slice(match.end);
+        }
+        return result
+            .replace(/\s+(?:at|on|from|@)(?=\s|$)/gi, ' ')
+            .replace(/[在于](?=\s*$)/, '')
+            .replace(/\s+/g, ' ')
+            .replace(/\s*([,，、])\s*(?=[,，、]|$)/g, '')
+            .trim();
+    }
+
+    // ---------- 构造部分结果 ----------
+
+    private static time(hour: number, minute: number): Fragment | null {
+        if (hour < 0 || hour > 23 || minute < 0 || minute > 59) return null;
+        return { time: { hour, minute } };
+    }
+
+    private static range(startHour: number, startMinute: number, endHour: number, endMinute: number): Fragment | null {
+        const start = this.time(startHour, startMinute);
+        const end = this.time(endHour === 24 ? 0 : endHour, endMinute);
+        if (!start?.time || !end?.time) return null;
+        return { time: start.time, endTime: end.time };
+    }
+
+    private static recurrence(rule: string): Fragment {
+        return { recurrence: rule };
+    }
+
+    private static weeklyRecurrence(days: number[], interval: number, reference: Date): Fragment | null {
+        if (days.some(day => day < 0)) return null;
+        const unique = Array.from(new Set(days)).sort((a, b) => ((a + 6) % 7) - ((b + 6) % 7));
+        const byDay = unique.map(day => RRULE_DAYS[day]).join(',');
+        // 第一次发生是接下来最近的一天
+        const firstDate = unique
+            .map(day => this.upcomingWeekday(reference, day))
+            .sort((a, b) => a.getTime() - b.getTime())[0];
+        return { recurrence: `FREQ=WEEKLY${interval > 1 ? `;INTERVAL=${interval}` : ''};BYDAY=${byDay}`, firstDate };
+    }
+
+    private static monthlyRecurrence(day: number, reference: Date): Fragment | null {
+        if (day < 1 || day > 31) return null;
+        let firstDate = new Date(reference.getFullYear(), reference.getMonth(), day);
+        if (firstDate < this.startOfDay(reference)) firstDate = new Date(reference.getFullYear(), reference.getMonth() + 1, day);
+        return { recurrence: `FREQ=MONTHLY;BYMONTHDAY=${day}`, firstDate };
+    }
+
+    private static relativeDate(reference: Date, amount: number, unit: string): Fragment {
+        const start = this.startOfDay(reference);
+        switch (unit) {
+            case 'w':
+                return { date: this.addDays(start, amount * 7) };
+            case 'm':
+                return { date: new Date(start.getFullYear(), start.getMonth() + amount, start.getDate()) };
+            case 'y':
+                return { date: new Date(start.getFullYear() + amount, start.getMonth(), start.getDate()) };
+            default:
+                return { date: this.addDays(start, amount) };
+        }
+    }
+
+    /**
+     * 没有写年份且日期已过去一个月以上时指明年
+     */
+    private static absoluteDate(year: number | undefined, month: number, day: number, reference?: Date): Fragment | null {
+        if (month < 1 || month > 12 || day < 1 || day > 31) return null;
+        const base = reference ?? new Date();
+        let date = new Date(year ?? base.getFullYear(), month - 1, day);
+        if (date.getMonth() !== month - 1) return null;
+        if (year === undefined && reference && reference.getTime() - date.getTime() > 31 * 86400000) {
+            date = new Date(date.getFullYear() + 1, month - 1, day);
+        }
+        return { date };
+    }
+
+    // ---------- 辅助 ----------
+
+    private static chineseTime(period: string | undefined, hourText: string, minuteText?: string, fraction?: string): { hour: number; minute: number } | null {
+        const rawHour = this.parseNumber(hourText);
+        if (rawHour === null || rawHour > 24) return null;
+        let minute = 0;
+        if (fraction === '半') minute = 30;
+        else if (fraction === '一刻') minute = 15;
+        else if (fraction === '三刻') minute = 45;
+        else if (minuteText) minute = this.parseNumber(minuteText) ?? -1;
+        if (minute < 0 || minute > 59) return null;
+        const hour = this.adjustPeriod(rawHour === 24 ? 0 : rawHour, period);
+        return { hour, minute };
+    }
+
+    private static adjustPeriod(hour: number, period?: string): number {
+        if (!period) return hour;
+        if (['下午', '傍晚', '晚上', '今晚'].includes(period) && hour < 12) return hour + 12;
+        if (period === '中午' && hour < 11) return hour + 12;
+        if (['凌晨', '早上', '早晨', '上午'].includes(period) && hour === 12) return 0;
+        return hour;
+    }
+
+    private static meridiem(hour: number, suffix?: string): number {
+        if (!suffix) return hour;
+        const pm = suffix.toLowerCase().startsWith('p');
+        if (pm && hour < 12) return hour + 12;
+        if (!pm && hour === 12) return 0;
+        return hour;
+    }
+
+    /**
+     * 阿拉伯数字、英文数字或中文数字（最多到九十九）
+     */
+    static parseNumber(value: string): number | null {
+        const text = value.trim().toLowerCase();
+        if (/^\d+$/.test(text)) return parseInt(text, 10);
+        if (text in EN_NUMBER) return EN_NUMBER[text];
+        const digits: Record<string, number> = { 零: 0, 〇: 0, 一: 1, 二: 2, 两: 2, 三: 3, 四: 4, 五: 5, 六: 6, 七: 7, 八: 8, 九: 9 };
+        const match = text.match(/^([一二两三四五六七八九])?(十)?([零〇一二三四五六七八九])?$/);
+        if (!match || (!match[1] && !match[2] && !match[3])) return null;
+        if (!match[2]) return match[3] && !match[1] ? digits[match[3]] : match[1] && !match[3] ? digits[match[1]] : null;
+        return (match[1] ? digits[match[1]] : 1) * 10 + (match[3] ? digits[match[3]] : 0);
+    }
+
+    private static englishWeekday(value: string): number {
+        const prefix = value.toLowerCase().slice(0, 3);
+        return ['sun', 'mon', 'tue', 'wed', 'thu', 'fri', 'sat'].indexOf(prefix);
+    }
+
+    private static chineseWeekday(value: string): number {
+        if (value === '日' || value === '天' || value === '7') return 0;
+        return '一二三四五六'.indexOf(value) + 1 || parseInt(value, 10) || -1;
+    }
+
+    private static englishMonth(value: string): number {
+        const prefix = value.toLowerCase().slice(0, 3);
+        return ['jan', 'feb', 'mar', 'apr', 'may', 'jun', 'jul', 'aug', 'sep', 'oct', 'nov', 'dec'].indexOf(prefix) + 1;
+    }
+
+    /**
+     * 接下来最近的星期几，今天就是时返回今天
+     */
+    private static upcomingWeekday(reference: Date, weekday: number): Date {
+        const start = this.startOfDay(reference);
+        return this.addDays(start, (weekday - start.getDay() + 7) % 7);
+    }
+
+    /**
+     * 参考日期所在周（周一开始）的星期几
+     */
+    private static weekdayOfWeek(reference: Date, weekday: number): Date {
+        const start = this.startOfDay(reference);
+        const monday = this.addDays(start, -((start.getDay() + 6) % 7));
+        return this.addDays(monday, (weekday + 6) % 7);
+    }
+
+    private static startOfDay(date: Date): Date {
+        return new Date(date.getFullYear(), date.getMonth(), date.getDate());
+    }
+
+    private static addDays(date: Date, days: number): Date {
+        const result = new Date(date);
+        result.setDate(result.getDate() + days);
+        return result;
+    }
+}
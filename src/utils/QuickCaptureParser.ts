@@ -0,0 +1,143 @@
+import { Task } from '../modal/Task';
+import { TaskFormatter } from '../modal/TaskFormatter';
+import { DailyNotes } from './DailyNotes';
+import { NaturalLanguageParser } from './NaturalLanguageParser';
+import { TimeParser } from './TimeParser';
+
+/**
+ * 快速收集解析结果
+ */
+export interface QuickCaptureResult {
+    // 名称、项目、标签、旗标、预计时间、备注、截止日期和重复规则，可以直接发给 OmniFocus
+    task: Task;
+    // 写入哪一天的笔记，yyyy-mm-dd
+    date: string;
+    startTime?: Date;
+    // 持续时间（分钟），用于时间轴
+    duration?: number;
+    dueTime?: Date;
+}
+
+// 各种标记，按顺序从文本中取出，剩下的文字再交给自然语言解析
+const NOTE_PATTERN = /\s+--\s+(.*)$/;
+const PROJECT_PATTERN = /(?:^|\s)::(?:"([^"]+)"|(\S+))/;
+const TAG_PATTERN = /(?:^|\s)#(?:"([^"]+)"|([^\s#"]+))/g;
+const ESTIMATE_PATTERN = /(?:^|\s)~(?:(\d+(?:\.\d+)?)h)?(?:(\d+)(?:m|min)?)?(?=\s|$)/;
+const FLAG_PATTERN = /(?:^|\s)!(?=\s|$)/;
+const TIME_PATTERN = /(?:^|\s)(@\S+|due:\S+)/g;
+
+/**
+ * 快速收集的单行语法
+ *
+ * 例如 `写周报 ::工作 #办公室 明天 @14:00+1h ~45m ! -- 附上数据`：
+ * - `::项目` 或 `::"项目名称"` 设置项目
+ * - `#标签` 或 `#"标签名称"`，可以写多个
+ * - `@14:30`、`@14:30-16:00`、`@14:30+1h`、`due:16:00` 与时间轴相同，由 TimeParser 解析
+ * - `~45m`、`~1h`、`~1h30m`、`~1.5h` 设置预计时间
+ * - 单独的 `!` 标记旗标
+ * - ` -- ` 之后的内容为备注
+ * 其余文字中的日期、时间和重复（明天、下午3点、every Monday）由 NaturalLanguageParser 解析，剩下的作为任务名称。
+ */
+export class QuickCaptureParser {
+    /**
+     * 解析一行输入，没有任务名称时返回 null
+     */
+    static parse(text: string, reference: Date = new Date()): QuickCaptureResult | null {
+        let rest = ` ${text.replace(/[\r\n]+/g, ' ').trim()} `;
+
+        let note: string | undefined;
+        rest = rest.replace(NOTE_PATTERN, (_, value: string) => {
+            note = value.trim() || undefined;
+            return ' ';
+        });
+
+        let project: string | undefined;
+        rest = rest.replace(PROJECT_PATTERN, (_, quoted?: string, plain?: string) => {
+            project = (quoted ?? plain ?? '').trim() || undefined;
+            return ' ';
+        });
+
+        const tags: string[] = [];
+        rest = rest.replace(TAG_PATTERN, (_, quoted?: string, plain?: string) => {
+            const tag = (quoted ?? plain ?? '').trim();
+            if (tag && !tags.includes(tag)) tags.push(tag);
+            return ' ';
+        });
+
+        let estimate: number | undefined;
+        rest = rest.replace(ESTIMATE_PATTERN, (match: string, hours?: string, minutes?: string) => {
+            if (!hours && !minutes) return match;
+            estimate = Math.round(parseFloat(hours ?? '0') * 60) + parseInt(minutes ?? '0', 10) || undefined;
+            return ' ';
+        });
+
+        let flagged = false;
+        rest = rest.replace(FLAG_PATTERN, () => {
+            flagged = true;
+            return ' ';
+        });
+
+        // 时间标记最后解析，需要先从其他文字得到日期
+        const timeTokens: string[] = [];
+        rest = rest.replace(TIME_PATTERN, (match: string, token: string) => {
+            if (!TimeParser.parseTaskTime(token, reference)) return match;
+            timeTokens.push(token);
+            return ' ';
+        });
+
+        rest = rest.replace(/\s+/g, ' ').trim();
+        const natural = rest ? NaturalLanguageParser.parse(rest, reference) : null;
+        const name = (natural ? natural.remainder : rest).replace(/\s+/g, ' ').trim();
+        if (!name) return null;
+
+        const day = natural?.hasDate ? natural.date : new Date(reference.getFullYear(), reference.getMonth(), reference.getDate());
+        let startTime = natural?.startTime;
+        let duration = natural?.duration;
+        let dueTime: Date | undefined;
+        for (const token of timeTokens) {
+            const info = TimeParser.parseTaskTime(token, day);
+            if (!info) continue;
+            if (info.startTime) startTime = info.startTime;
+            if (info.duration) duration = info.duration;
+            if (info.dueTime) dueTime = info.dueTime;
+        }
+        if (!duration && startTime && natural?.endTime) {
+            duration = Math.round((natural.endTime.getTime() - startTime.getTime()) / 60000) || undefined;
+        }
+
+        const task: Task = {
+            name,
+            id: '',
+            project,
+            tags: tags.length > 0 ? tags : undefined,
+            flagged: flagged || undefined,
+            estimatedMinutes: estimate ?? duration ?? null,
+            note,
+            repetitionRule: natural?.recurrence ?? null,
+            startTime: startTime ? TimeParser.formatTime(startTime) : null,
+            dueTime: dueTime ? TimeParser.formatTime(dueTime) : null,
+            duration: duration ?? null,
+        };
+        // 截止时间优先，其次是提到的日期
+        if (dueTime) task.dueDate = dueTime.toISOString();
+        else if (natural?.hasDate) task.dueDate = day.toISOString();
+
+        return { task, date: DailyNotes.formatDate(day), startTime, duration, dueTime };
+    }
+
+    /**
+     * 时间轴行：`- [ ] 名称 [capture:: id] @14:30+1h due:16:00`
+     * @param captureId 在 OmniFocus 中创建时的临时 id，同步回这个任务后按它删除该行
+     */
+    static formatTimelineLine(result: QuickCaptureResult, captureId?: string | null): string {
+        let line = `- [ ] ${result.task.name}`;
+        if (captureId) line += ` [capture:: ${captureId}]`;
+        if (result.startTime) {
+            line = TaskFormatter.setLineTime(line, TimeParser.formatTime(result.startTime), result.duration);
+        }
+        if (result.dueTime && result.dueTime.getTime() !== result.startTime?.getTime()) {
+            line += ` due:${TimeParser.formatTime(result.dueTime)}`;
+        }
+        return line;
+    }
+}
@@ -11,6 +11,7 @@ export interface TaskTimeInfo {
 /**
  * 时间解析工具类
  * 支持多种时间格式的解析，30分钟间隔，持续时间解析
+ * 时刻落在参考日期（默认今天）上，相对时间（30分钟后）总是相对于现在
  */
 export class TimeParser {
     // 30分钟间隔常量
@@ -25,7 +26,7 @@ export class TimeParser {
      * - @14:30+90min (开始时间+持续时间分钟)
      * - due:16:00 (截止时间)
      */
-    static parseTaskTime(timeStr: string): TaskTimeInfo | null {
+    static parseTaskTime(timeStr: string, referenceDate: Date = new Date()): TaskTimeInfo | null {
         if (!timeStr) return null;
 
         const trimmed = timeStr.trim();
@@ -33,15 +34,15 @@ export class TimeParser {
         // 解析截止时间格式: due:HH:mm
         const dueMatch = trimmed.match(/^due:(.+)$/i);
         if (dueMatch) {
-            const dueTime = this.parseTime(dueMatch[1]);
+            const dueTime = this.parseTime(dueMatch[1], referenceDate);
             return dueTime ? { dueTime } : null;
         }
 
         // 解析时间范围格式: @HH:mm-HH:mm
         const rangeMatch = trimmed.match(/^@(.+?)-(.+)$/);
         if (rangeMatch) {
-            const startTime = this.parseTime(rangeMatch[1]);
-            const endTime = this.parseTime(rangeMatch[2]);
+            const startTime = this.parseTime(rangeMatch[1], referenceDate);
+            const endTime = this.parseTime(rangeMatch[2], referenceDate);
             if (startTime && endTime) {
                 // 处理跨夜情况：如果结束时间小于开始时间，说明跨夜了
                 let adjustedEndTime = endTime;
@@ -57,7 +58,7 @@ export class TimeParser {
         // 解析开始时间+持续时间格式: @HH:mm+Xh 或 @HH:mm+Xmin
         const durationMatch = trimmed.match(/^@(.+?)\+(\d+)(h|min|小时|分钟)$/i);
         if (durationMatch) {
-            const startTime = this.parseTime(durationMatch[1]);
+            const startTime = this.parseTime(durationMatch[1], referenceDate);
             if (startTime) {
                 let duration = parseInt(durationMatch[2], 10);
                 const unit = durationMatch[3].toLowerCase();
@@ -74,7 +75,7 @@ export class TimeParser {
         // 解析简单开始时间格式: @HH:mm
         const simpleMatch = trimmed.match(/^@(.+)$/);
         if (simpleMatch) {
-            const startTime = this.parseTime(simpleMatch[1]);
+            const startTime = this.parseTime(simpleMatch[1], referenceDate);
             return startTime ? { startTime } : null;
         }
 
@@ -90,7 +91,7 @@ export class TimeParser {
      * - H:mm AM/PM (单数字小时12小时制，如 9:30 AM)
      * - 中文时间 (如 下午2点30分, 上午9点)
      */
-    static parseTime(timeStr: string): Date | null {
+    static parseTime(timeStr: string, referenceDate: Date = new Date()): Date | null {
         if (!timeStr) return null;
 
         const trimmed = timeStr.trim();
@@ -100,7 +101,8 @@ export class TimeParser {
         if (time24Match) {
             return this.createTimeFromHourMinute(
                 parseInt(time24Match[1], 10),
-                parseInt(time24Match[2], 10)
+                parseInt(time24Match[2], 10),
+                referenceDate
             );
         }
 
@@ -117,11 +119,11 @@ export class TimeParser {
                 hours = 0;
             }
 
-            return this.createTimeFromHourMinute(hours, minutes);
+            return this.createTimeFromHourMinute(hours, minutes, referenceDate);
         }
 
         // 尝试中文时间格式
-        const chineseTime = this.parseChineseTime(trimmed);
+        const chineseTime = this.parseChineseTime(trimmed, referenceDate);
         if (chineseTime) return chineseTime;
 
         // 尝试相对时间格式 (如 "in 30 minutes", "30分钟后")
@@ -134,7 +136,7 @@ export class TimeParser {
     /**
      * 解析中文时间格式
      */
-    private static parseChineseTime(timeStr: string): Date | null {
+    private static parseChineseTime(timeStr: string, referenceDate: Date): Date | null {
         // 匹配格式: 上午/下午 + 数字 + 点/时 + (可选)数字 + 分
         const chineseMatch = timeStr.match(/^(上午|下午|凌晨|中午|晚上)?(\d{1,2})(点|时)(\d{1,2})?(分)?$/);
         if (chineseMatch) {
@@ -153,14 +155,14 @@ export class TimeParser {
                 hours = 0;
             }
 
-            return this.createTimeFromHourMinute(hours, minutes);
+            return this.createTimeFromHourMinute(hours, minutes, referenceDate);
         }
 
         // 简化格式: 数字 + 点
         const simpleChineseMatch = timeStr.match(/^(\d{1,2})(点|时)$/);
         if (simpleChineseMatch) {
             const hours = parseInt(simpleChineseMatch[1], 10);
-            return this.createTimeFromHourMinute(hours, 0);
+            return this.createTimeFromHourMinute(hours, 0, referenceDate);
         }
 
         return null;
@@ -202,15 +204,14 @@ export class TimeParser {
     }
 
     /**
-     * 从小时和分钟创建今天的时间
+     * 从小时和分钟创建参考日期当天的时间
      */
-    private static createTimeFromHourMinute(hours: number, minutes: number): Date | null {
+    private static createTimeFromHourMinute(hours: number, minutes: number, referenceDate: Date): Date | null {
         if (hours < 0 || hours > 23 || minutes < 0 || minutes > 59) {
             return null;
         }
 
-        const now = new Date();
-        return new Date(now.getFullYear(), now.getMonth(), now.getDate(), hours, minutes);
+        return new Date(referenceDate.getFullYear(), referenceDate.getMonth(), referenceDate.getDate(), hours, minutes);
     }
 
     /**
@@ -232,8 +233,7 @@ export class TimeParser {
     /**
      * 获取时间状态 (即将到来、当前、已过)
      */
-    static getTimeStatus(date: Date): 'upcoming' | 'current' | 'past' {
-        const now = new Date();
+    static getTimeStatus(date: Date, now: Date = new Date()): 'upcoming' | 'current' | 'past' {
         const diffMinutes = (date.getTime() - now.getTime()) / (1000 * 60);
         
         if (diffMinutes < -5) return 'past';
@@ -255,9 +255,8 @@ export class TimeParser {
     /**
      * 生成时间间隔数组（用于时间轴显示）
      */
-    static generateTimeSlots(startHour: number, endHour: number, intervalMinutes: number = this.INTERVAL_MINUTES): Date[] {
+    static generateTimeSlots(startHour: number, endHour: number, intervalMinutes: number = this.INTERVAL_MINUTES, referenceDate: Date = new Date()): Date[] {
         const slots: Date[] = [];
-        const today = new Date();
         
         // 支持跨日期的时间槽生成，endHour可能超过24（如25表示第二天凌晨1点）
         const crossDate = endHour > 24;
@@ -272,11 +271,11 @@ export class TimeParser {
             
             if (hour < 24) {
                 // 当天的时间槽
-                slots.push(new Date(today.getFullYear(), today.getMonth(), today.getDate(), hour, minute));
+                slots.push(new Date(referenceDate.getFullYear(), referenceDate.getMonth(), referenceDate.getDate(), hour, minute));
             } else {
                 // 第二天的时间槽
                 const nextDayHour = hour - 24;
-                const nextDay = new Date(today.getFullYear(), today.getMonth(), today.getDate() + 1);
+                const nextDay = new Date(referenceDate.getFullYear(), referenceDate.getMonth(), referenceDate.getDate() + 1);
                 slots.push(new Date(nextDay.getFullYear(), nextDay.getMonth(), nextDay.getDate(), nextDayHour, minute));
                 
                 // 如果已经超过了目标结束时间，停止生成
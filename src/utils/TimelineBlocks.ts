@@ -0,0 +1,262 @@
+import { TaskFormatter } from '../modal/TaskFormatter';
+
+// 代码围栏：三个以上的 ` 或 ~，后面是语言和其他属性
+const FENCE_PATTERN = /^\s*(`{3,}|~{3,})(.*)$/;
+// 时间轴行中的时间标记
+const TIME_TOKEN_PATTERN = /\s+(?:@[\w:\-+]+|due:[\w:]+)/g;
+
+/**
+ * timeline 代码块中一行的位置：第几个 timeline 代码块（从 0 开始）和块内第几行
+ */
+export interface TimelineLineRef {
+    block: number;
+    line: number;
+}
+
+/**
+ * 写回时间轴行的结果
+ * - ok：行仍在记录的位置
+ * - moved：行的位置变了，通过唯一的相同行或 #id 找到
+ * - merged：行已被修改，但与本次修改的部分不冲突，合并后写入
+ * - conflict：行已被修改，且与本次修改冲突
+ * - ambiguous：有多个相同的行，无法确定是哪一个
+ * - missing：找不到该行
+ */
+export type TimelineWriteStatus = 'ok' | 'moved' | 'merged' | 'conflict' | 'ambiguous' | 'missing';
+
+export interface TimelineWriteResult {
+    status: TimelineWriteStatus;
+    content: string;
+    // 以下字段只在写入成功时存在：写入的位置、写入前和写入后的行
+    ref?: TimelineLineRef;
+    previous?: string;
+    line?: string;
+}
+
+interface TimelineBlock {
+    // 第一行内容和结束围栏在笔记中的行号，没有结束围栏时 end 为笔记行数
+    start: number;
+    end: number;
+    lines: string[];
+}
+
+interface LineSearch {
+    status: TimelineWriteStatus | 'changed';
+    ref?: TimelineLineRef;
+}
+
+interface LineFields {
+    status: string;
+    name: string;
+    times: string;
+    rest: string;
+}
+
+/**
+ * 笔记中 timeline 代码块的读写工具
+ *
+ * 只处理 timeline 代码块内的行，其他代码块和正文保持不变。
+ * 写回时按代码块序号和行号定位，行已移动时通过 #id 或唯一的相同行查找；
+ * 行在渲染后被修改时尝试合并，无法确定或冲突时不写入，不会改到其他行。
+ */
+export class TimelineBlocks {
+    /**
+     * 合并笔记中所有 timeline 代码块的内容
+     */
+    static extract(content: string): string {
+        return this.parse(content).flatMap(block => block.lines).join('\n');
+    }
+
+    /**
+     * extract 结果中的行号对应的代码块位置
+     */
+    static locate(content: string, index: number): TimelineLineRef | null {
+        let offset = index;
+        const blocks = this.parse(content);
+        for (let block = 0; block < blocks.length; block++) {
+            if (offset < blocks[block].lines.length) return { block, line: offset };
+            offset -= blocks[block].lines.length;
+        }
+        return null;
+    }
+
+    /**
+     * 笔记中某一行所在的 timeline 代码块序号，包括围栏行，不在代码块中返回 -1
+     */
+    static blockAt(content: string, lineNumber: number): number {
+        return this.parse(content).findIndex(block => lineNumber >= block.start - 1 && lineNumber <= block.end);
+    }
+
+    /**
+     * 把 timeline 代码块中的 oldLine 替换为 newLine
+     * @param ref 渲染时记录的位置，没有时只按内容查找
+     */
+    static replaceLine(content: string, oldLine: string, newLine: string, ref?: TimelineLineRef): TimelineWriteResult {
+        const { lines, eol } = this.split(content);
+        const blocks = this.blocks(lines);
+        const search = this.find(blocks, oldLine, ref);
+        if (!search.ref) return { status: search.status as TimelineWriteStatus, content };
+
+        const index = blocks[search.ref.block].start + search.ref.line;
+        const previous = lines[index].trim();
+        let line = newLine;
+        let status = search.status as TimelineWriteStatus;
+        if (search.status === 'changed') {
+            const merged = this.merge(oldLine, newLine, previous);
+            if (merged === null) return { status: 'conflict', content };
+            line = merged;
+            status = 'merged';
+        }
+        lines[index] = this.indent(lines[index]) + line;
+        return { status, content: lines.join(eol), ref: search.ref, previous, line };
+    }
+
+    /**
+     * 删除 timeline 代码块中的 line，行已被修改时不删除
+     */
+    static removeLine(content: string, line: string, ref?: TimelineLineRef): TimelineWriteResult {
+        const { lines, eol } = this.split(content);
+        const blocks = this.blocks(lines);
+        const search = this.find(blocks, line, ref);
+        if (search.status === 'changed') return { status: 'conflict', content };
+        if (!search.ref) return { status: search.status, content };
+
+        const index = blocks[search.ref.block].start + search.ref.line;
+        const previous = lines[index].trim();
+        lines.splice(index, 1);
+        return { status: search.status, content: lines.join(eol), ref: search.ref, previous };
+    }
+
+    /**
+     * 在最后一个 timeline 代码块末尾追加一行，没有代码块时在笔记末尾新建
+     */
+    static appendLine(content: string, line: string): string {
+        const { lines, eol } = this.split(content);
+        const last = this.blocks(lines).pop();
+        if (last) {
+            lines.splice(last.end, 0, line);
+            return lines.join(eol);
+        }
+        const trimmed = content.replace(/\s+$/, '');
+        const block = ['```timeline', line, '```'].join(eol);
+        return trimmed ? `${trimmed}${eol}${eol}${block}${eol}` : `${block}${eol}`;
+    }
+
+    private static parse(content: string): TimelineBlock[] {
+        return this.blocks(this.split(content).lines);
+    }
+
+    /**
+     * 按行拆分，保留笔记原来的换行符
+     */
+    private static split(content: string): { lines: string[]; eol: string } {
+        return { lines: content.split(/\r?\n/), eol: content.includes('\r\n') ? '\r\n' : '\n' };
+    }
+
+    /**
+     * 找出所有 timeline 代码块
+     * 结束围栏与开始围栏字符相同、长度不短于开始围栏且没有其他内容，其他代码块中的 ``` 不会被当作围栏
+     */
+    private static blocks(lines: string[]): TimelineBlock[] {
+        const blocks: TimelineBlock[] = [];
+        let fence: string | null = null;
+        let current: TimelineBlock | null = null;
+        for (let i = 0; i < lines.length; i++) {
+            const match = lines[i].match(FENCE_PATTERN);
+            if (fence !== null) {
+                if (match && match[1][0] === fence[0] && match[1].length >= fence.length && !match[2].trim()) {
+                    if (current) current.end = i;
+                    fence = null;
+                    current = null;
+                } else {
+                    current?.lines.push(lines[i]);
+                }
+                continue;
+            }
+            // ``` 围栏的属性中不能有 `
+            if (!match || (match[1][0] === '`' && match[2].includes('`'))) continue;
+            fence = match[1];
+            if (match[2].trim().split(/[\s{]/)[0] === 'timeline') {
+                current = { start: i + 1, end: lines.length, lines: [] };
+                blocks.push(current);
+            }
+        }
+        return blocks;
+    }
+
+    /**
+     * 查找要修改的行：先看记录的位置，再找唯一的相同行，最后按 #id 或原位置的同名任务找到已被修改的行
+     */
+    private static find(blocks: TimelineBlock[], oldLine: string, ref?: TimelineLineRef): LineSearch {
+        const atRef = ref ? blocks[ref.block]?.lines[ref.line]?.trim() : undefined;
+        if (ref && atRef === oldLine) return { status: 'ok', ref };
+
+        const all = blocks.flatMap((block, index) => block.lines.map((line, offset) => ({
+            ref: { block: index, line: offset },
+            text: line.trim(),
+        })));
+        const exact = all.filter(item => item.text === oldLine);
+        if (exact.length === 1) return { status: 'moved', ref: exact[0].ref };
+        if (exact.length > 1) return { status: 'ambiguous' };
+
+        const id = TaskFormatter.extractTaskId(oldLine);
+        if (id) {
+            const sameId = all.filter(item => TaskFormatter.extractTaskId(item.text) === id);
+            if (sameId.length === 1) return { status: 'changed', ref: sameId[0].ref };
+            return { status: sameId.length > 1 ? 'ambiguous' : 'missing' };
+        }
+        if (ref && atRef && this.fields(atRef)?.name === this.fields(oldLine)?.name) {
+            return { status: 'changed', ref };
+        }
+        return { status: 'missing' };
+    }
+
+    /**
+     * 三方合并：本次只修改了完成状态、名称或时间中的部分，且笔记中的行没有改动这些部分时，只把本次的修改应用到当前行
+     * @returns 冲突时返回 null
+     */
+    private static merge(oldLine: string, newLine: string, current: string): string | null {
+        const base = this.fields(oldLine);
+        const ours = this.fields(newLine);
+        const theirs = this.fields(current);
+        if (!base || !ours || !theirs || base.rest !== ours.rest) return null;
+
+        let line = current;
+        for (const key of ['status', 'name', 'times'] as const) {
+            if (ours[key] === base[key] || theirs[key] === ours[key]) continue;
+            if (theirs[key] !== base[key]) return null;
+            if (key === 'status') line = line.replace(/^(-\s*\[).(\])/, `$1${ours.status}$2`);
+            if (key === 'name') line = TaskFormatter.setLineName(line, ours.name);
+            if (key === 'times') line = this.setTimes(line, ours.times);
+        }
+        return line;
+    }
+
+    /**
+     * 拆出时间轴行的完成状态、名称、时间标记和其余部分
+     */
+    private static fields(line: string): LineFields | null {
+        const parts = TaskFormatter.splitTimelineLine(line);
+        if (!parts) return null;
+        const times = (parts.tail.match(TIME_TOKEN_PATTERN) ?? []).map(token => token.trim()).join(' ');
+        const rest = parts.tail.replace(TIME_TOKEN_PATTERN, '').trim();
+        return { status: parts.status, name: parts.name, times, rest };
+    }
+
+    /**
+     * 替换行中的时间标记，放在原来第一个时间标记的位置，没有则插入到 #id 之前
+     */
+    static setTimes(line: string, times: string): string {
+        const first = line.search(TIME_TOKEN_PATTERN);
+        const rest = line.replace(TIME_TOKEN_PATTERN, '');
+        if (!times) return rest;
+        let insertAt = first;
+        if (insertAt < 0) insertAt = rest.search(/\s#[\w-]+\s*$/);
+        if (insertAt < 0) insertAt = rest.length;
+        return `${rest.substring(0, insertAt)} ${times}${rest.substring(insertAt)}`;
+    }
+
+    private static indent(line: string): string {
+        return line.match(/^\s*/)?.[0] ?? '';
+    }
+}
@@ -0,0 +1,90 @@
+/**
+ * 一周的信息，year 为周所属年份（跨年时可能与日期的年份不同）
+ */
+export interface WeekInfo {
+    year: number;
+    week: number;
+    start: Date;
+    end: Date;
+}
+
+/**
+ * 一周的第一天：0 周日，1 周一，6 周六
+ */
+export type FirstDayOfWeek = 0 | 1 | 6;
+
+const WEEK_PATTERN = /^(\d{4})-W(\d{2})$/;
+const WEEKDAY_NAMES = ['周日', '周一', '周二', '周三', '周四', '周五', '周六'];
+
+/**
+ * 周计算工具类
+ *
+ * 按 ISO-8601 规则计算周数：一周的第四天（周一开始时即周四）所在的年份就是这一周所属的年份，
+ * 包含 1 月 4 日的一周是第 1 周。一周从周日或周六开始时使用同样的规则。
+ */
+export class Weeks {
+    /**
+     * 获取日期所在周的第一天（本地零点）
+     */
+    static startOfWeek(date: Date, firstDayOfWeek: FirstDayOfWeek = 1): Date {
+        const start = new Date(date.getFullYear(), date.getMonth(), date.getDate());
+        start.setDate(start.getDate() - (start.getDay() - firstDayOfWeek + 7) % 7);
+        return start;
+    }
+
+    /**
+     * 获取日期所在的周
+     */
+    static getWeek(date: Date, firstDayOfWeek: FirstDayOfWeek = 1): WeekInfo {
+        const start = this.startOfWeek(date, firstDayOfWeek);
+        const anchor = this.addDays(start, 3);
+        const year = anchor.getFullYear();
+        // 用 UTC 计算天数差，避免夏令时切换导致的误差
+        const dayOfYear = (Date.UTC(year, anchor.getMonth(), anchor.getDate()) - Date.UTC(year, 0, 1)) / 86400000;
+        return { year, week: Math.floor(dayOfYear / 7) + 1, start, end: this.addDays(start, 6) };
+    }
+
+    /**
+     * 两个日期是否在同一周
+     */
+    static isSameWeek(a: Date, b: Date, firstDayOfWeek: FirstDayOfWeek = 1): boolean {
+        return this.startOfWeek(a, firstDayOfWeek).getTime() === this.startOfWeek(b, firstDayOfWeek).getTime();
+    }
+
+    /**
+     * 格式化为 YYYY-Www
+     */
+    static format(info: WeekInfo): string {
+        return `${info.year}-W${info.week.toString().padStart(2, '0')}`;
+    }
+
+    /**
+     * 解析 YYYY-Www，周数超出该年范围时返回 null
+     */
+    static parse(value: string, firstDayOfWeek: FirstDayOfWeek = 1): WeekInfo | null {
+        const match = value.match(WEEK_PATTERN);
+        if (!match) return null;
+        const year = parseInt(match[1], 10);
+        const week = parseInt(match[2], 10);
+        const firstWeekStart = this.startOfWeek(new Date(year, 0, 4), firstDayOfWeek);
+        const info = this.getWeek(this.addDays(firstWeekStart, (week - 1) * 7), firstDayOfWeek);
+        return info.year === year && info.week === week ? info : null;
+    }
+
+    /**
+     * 一周中的七天
+     */
+    static days(info: WeekInfo): Date[] {
+        return Array.from({ length: 7 }, (_, i) => this.addDays(info.start, i));
+    }
+
+    static weekdayName(date: Date): string {
+        return WEEKDAY_NAMES[date.getDay()];
+    }
+
+    private static addDays(date: Date, days: number): Date {
+        const result = new Date(date);
+        result.setDate(result.getDate() + days);
+        return result;
+    }
+}
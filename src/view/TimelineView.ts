@@ -0,0 +1,252 @@
+import { debounce, ItemView, TAbstractFile, ViewStateResult, WorkspaceLeaf } from 'obsidian';
+import { TimelineContentUpdate, TimelineDay, TimelineOptions, TimelineRenderer, TimelineSourceUpdate, TimelineTaskMove, TimelineTaskProvider } from '../renderer/TimelineRenderer';
+import { DailyNotes } from '../utils/DailyNotes';
+import { TimelineBlocks, TimelineLineRef } from '../utils/TimelineBlocks';
+import { FirstDayOfWeek, Weeks } from '../utils/Weeks';
+
+export const VIEW_TYPE_TIMELINE = 'gtd-timeline-view';
+
+/**
+ * 时间轴视图需要插件提供的能力
+ */
+export interface TimelineViewHost extends TimelineTaskProvider {
+    getSavePath(): string;
+    getTimelineOptions(): Partial<TimelineOptions>;
+    getFirstDayOfWeek(): FirstDayOfWeek;
+    // historyKey 为撤销记录的分组，视图使用 VIEW_TYPE_TIMELINE
+    handleTimelineContentUpdate(detail: { oldLine: string; newLine: string; ref?: TimelineLineRef }, sourcePath: string, historyKey?: string): Promise<boolean>;
+    moveTimelineTask(move: TimelineTaskMove, historyKey?: string): Promise<boolean>;
+    updateTaskSourceLine(update: TimelineSourceUpdate, historyKey?: string): Promise<boolean>;
+    undoTimelineEdit(key: string): Promise<void>;
+    redoTimelineEdit(key: string): Promise<void>;
+}
+
+/**
+ * 视图保存的状态，重启后恢复到上次查看的日期
+ */
+interface TimelineViewState {
+    date?: string;
+}
+
+/**
+ * 时间轴工作区视图
+ *
+ * 显示某一天每日笔记中所有 timeline 代码块的任务，支持前后翻页和回到今天，
+ * 笔记修改后自动刷新，拖拽和编辑写回笔记。周布局下每天一列，任务可以拖到另一天。
+ * 视图中的修改有单独的撤销记录，不与笔记中的代码块混在一起。
+ */
+export class TimelineView extends ItemView {
+    private host: TimelineViewHost;
+    private date: string = DailyNotes.formatDate(new Date());
+    private dateLabelEl?: HTMLElement;
+    private prevButton?: HTMLElement;
+    private nextButton?: HTMLElement;
+    private bodyEl?: HTMLElement;
+    private renderer?: TimelineRenderer;
+    // 当前显示的笔记，修改后刷新
+    private paths: string[] = [];
+    // 渲染时读取的笔记内容，用于把时间轴中的行号换算为代码块位置
+    private contents: Map<string, string> = new Map();
+    // 连续修改（例如拖拽后写回）时只刷新一次
+    private scheduleRefresh = debounce(() => this.refresh(), 300, true);
+
+    constructor(leaf: WorkspaceLeaf, host: TimelineViewHost) {
+        super(leaf);
+        this.host = host;
+    }
+
+    getViewType(): string {
+        return VIEW_TYPE_TIMELINE;
+    }
+
+    getDisplayText(): string {
+        return '时间轴';
+    }
+
+    getIcon(): string {
+        return 'calendar-clock';
+    }
+
+    async onOpen(): Promise<void> {
+        const container = this.contentEl;
+        container.empty();
+        container.addClass('gtd-timeline-view');
+
+        const header = container.createDiv('gtd-timeline-view-header');
+        this.prevButton = header.createEl('button', { text: '‹' });
+        const todayButton = header.createEl('button', { text: '今天' });
+        this.nextButton = header.createEl('button', { text: '›' });
+        this.dateLabelEl = header.createDiv('gtd-timeline-view-date');
+        this.bodyEl = container.createDiv('gtd-timeline-view-body');
+
+        this.prevButton.addEventListener('click', () => this.setDate(DailyNotes.addDays(this.date, -this.getStep())));
+        this.nextButton.addEventListener('click', () => this.setDate(DailyNotes.addDays(this.date, this.getStep())));
+        todayButton.addEventListener('click', () => this.setDate(DailyNotes.formatDate(new Date())));
+
+        const onFileChange = (file: TAbstractFile) => {
+            if (this.paths.includes(file.path)) this.scheduleRefresh();
+        };
+        this.registerEvent(this.app.vault.on('modify', onFileChange));
+        this.registerEvent(this.app.vault.on('create', onFileChange));
+        this.registerEvent(this.app.vault.on('delete', onFileChange));
+        this.registerEvent(this.app.vault.on('rename', (file, oldPath) => {
+            if (this.paths.includes(file.path) || this.paths.includes(oldPath)) this.scheduleRefresh();
+        }));
+        this.register(() => this.scheduleRefresh.cancel());
+
+        await this.refresh();
+    }
+
+    async onClose(): Promise<void> {
+        this.removeRenderer();
+    }
+
+    getState(): Record<string, unknown> {
+        return { ...super.getState(), date: this.date };
+    }
+
+    async setState(state: TimelineViewState, result: ViewStateResult): Promise<void> {
+        if (state?.date && DailyNotes.parseDate(state.date)) {
+            this.date = state.date;
+            await this.refresh();
+        }
+        await super.setState(state, result);
+    }
+
+    getDate(): string {
+        return this.date;
+    }
+
+    async setDate(date: string): Promise<void> {
+        if (!DailyNotes.parseDate(date) || date === this.date) return;
+        this.date = date;
+        // 保存状态，重启后恢复
+        this.app.workspace.requestSaveLayout();
+        await this.refresh();
+    }
+
+    /**
+     * 滚动到当前任务，没有可显示的任务时返回 false
+     */
+    scrollToCurrentTask(): boolean {
+        return this.renderer?.scrollToCurrentTask() ?? false;
+    }
+
+    /**
+     * 重新读取笔记并渲染时间轴
+     */
+    async refresh(): Promise<void> {
+        if (!this.bodyEl || !this.dateLabelEl) return;
+        const options = this.host.getTimelineOptions();
+        const isWeek = options.layout === 'week';
+        this.prevButton?.setAttribute('aria-label', isWeek ? '上一周' : '前一天');
+        this.nextButton?.setAttribute('aria-label', isWeek ? '下一周' : '后一天');
+
+        if (isWeek) {
+            await this.refreshWeek(options);
+            return;
+        }
+
+        const day = DailyNotes.parseDate(this.date);
+        this.dateLabelEl.setText(day ? `${this.date} ${Weeks.weekdayName(day)}` : this.date);
+
+        const path = this.getNotePath(this.date);
+        this.paths = [path];
+        const content = await this.read(path);
+        this.contents = new Map(content === null ? [] : [[path, content]]);
+
+        this.removeRenderer();
+        this.bodyEl.empty();
+        if (content === null) {
+            this.bodyEl.createDiv('timeline-empty').setText(`${this.date} 还没有同步的笔记`);
+            return;
+        }
+
+        const renderer = this.createRenderer({ ...options, date: this.date });
+        await renderer.render(TimelineBlocks.extract(content));
+    }
+
+    /**
+     * 渲染当前日期所在的一周，没有笔记的日期显示为空列
+     */
+    private async refreshWeek(options: Partial<TimelineOptions>): Promise<void> {
+        if (!this.bodyEl || !this.dateLabelEl) return;
+        const date = DailyNotes.parseDate(this.date) ?? new Date();
+        const info = Weeks.getWeek(date, this.host.getFirstDayOfWeek());
+        const dates = Weeks.days(info).slice(0, options.weekDays ?? 7);
+        this.dateLabelEl.setText(`${Weeks.format(info)} ${DailyNotes.formatDate(dates[0])} ~ ${DailyNotes.formatDate(dates[dates.length - 1])}`);
+
+        const days: TimelineDay[] = [];
+        this.contents = new Map();
+        for (const day of dates) {
+            const formatted = DailyNotes.formatDate(day);
+            const path = this.getNotePath(formatted);
+            const content = await this.read(path);
+            if (content !== null) this.contents.set(path, content);
+            days.push({
+                date: formatted,
+                label: `${Weeks.weekdayName(day)} ${formatted.slice(5)}`,
+                content: content === null ? '' : TimelineBlocks.extract(content),
+                sourcePath: path,
+            });
+        }
+        this.paths = days.map(day => day.sourcePath);
+
+        this.removeRenderer();
+        this.bodyEl.empty();
+        const renderer = this.createRenderer(options);
+        await renderer.renderWeek(days);
+    }
+
+    private createRenderer(options: Partial<TimelineOptions>): TimelineRenderer {
+        const rendererEl = (this.bodyEl ?? this.contentEl).createDiv();
+        const renderer = new TimelineRenderer(rendererEl, this.app, options, this.host);
+        rendererEl.addEventListener('timeline-content-updated', (event: CustomEvent<TimelineContentUpdate>) => {
+            // 周布局的事件带有来源笔记路径
+            const { oldLine, newLine, line } = event.detail;
+            const path = event.detail.sourcePath ?? this.getNotePath(this.date);
+            this.host.handleTimelineContentUpdate({ oldLine, newLine, ref: this.locate(path, line) }, path, VIEW_TYPE_TIMELINE);
+        });
+        rendererEl.addEventListener('timeline-task-moved', (event: CustomEvent<TimelineTaskMove>) => {
+            const move = event.detail;
+            this.host.moveTimelineTask({ ...move, fromRef: this.locate(move.fromPath, move.fromLine) }, VIEW_TYPE_TIMELINE);
+        });
+        rendererEl.addEventListener('timeline-source-updated', (event: CustomEvent<TimelineSourceUpdate>) => {
+            this.host.updateTaskSourceLine(event.detail, VIEW_TYPE_TIMELINE);
+        });
+        // 视图中的修改单独记录，翻页后仍然可以撤销
+        rendererEl.addEventListener('timeline-undo', () => this.host.undoTimelineEdit(VIEW_TYPE_TIMELINE));
+        rendererEl.addEventListener('timeline-redo', () => this.host.redoTimelineEdit(VIEW_TYPE_TIMELINE));
+        this.renderer = renderer;
+        this.addChild(renderer);
+        return renderer;
+    }
+
+    /**
+     * 合并后内容中的行号对应的代码块位置，按渲染时的笔记内容换算
+     */
+    private locate(path: string, line?: number): TimelineLineRef | undefined {
+        const content = this.contents.get(path);
+        if (content === undefined || line === undefined) return undefined;
+        return TimelineBlocks.locate(content, line) ?? undefined;
+    }
+
+    private getStep(): number {
+        return this.host.getTimelineOptions().layout === 'week' ? 7 : 1;
+    }
+
+    private getNotePath(date: string): string {
+        return DailyNotes.getPath(this.host.getSavePath(), date);
+    }
+
+    private async read(path: string): Promise<string | null> {
+        return await this.app.vault.adapter.exists(path) ? this.app.vault.adapter.read(path) : null;
+    }
+
+    private removeRenderer(): void {
+        if (this.renderer) {
+            this.removeChild(this.renderer);
+            this.renderer = undefined;
+        }
+    }
+}